@@ -4,9 +4,15 @@
  *
  * Demonstrates:
  * - useDeferredValue for smooth scrolling during data processing
- * - useTransition for non-blocking data fetches
+ * - A paginated-loader state machine: one request per page, retry on error
  * - Suspense for loading states
- * - Virtualization for performance with large lists
+ * - Virtualization for performance with large lists of variable-height rows
+ * - Cursor pagination in both directions, keeping only a window of pages
+ * - Server-side search, with a cursor and cache per query
+ * - A query language (fields, dates, phrases, sorting) with highlighted matches
+ * - Find in loaded items through an incremental inverted index
+ * - Keyboard navigation, selection and ARIA roles on the virtualized rows
+ * - Grid, masonry and horizontal layouts on the same virtualizer
  */
 
 import React, {
@@ -15,10 +21,42 @@ import React, {
   useRef,
   useCallback,
   useDeferredValue,
-  useTransition,
   useMemo,
+  useImperativeHandle,
+  useLayoutEffect,
+  useReducer,
+  useSyncExternalStore,
   Suspense,
 } from 'react';
+import {
+  createCircuitBreaker,
+  createConcurrencyLimiter,
+  retry,
+  sleep,
+} from '../../src/ts/concurrency';
+import {
+  useCompiledQuery,
+  useDebouncedValue,
+  usePaginatedLoader,
+  usePaginatedQuery,
+  useSearchIndex,
+} from '../../src/ts/concurrency-hooks';
+import { PageSource } from '../../src/ts/paginated-loader';
+import {
+  compileQuery,
+  Highlights,
+  QuerySchema,
+  QuerySyntaxError,
+  splitHighlights,
+  TextSpan,
+} from '../../src/ts/query-language';
+import { SearchHit, SearchIndexOptions } from '../../src/ts/search-index';
+import {
+  createGridLayout,
+  createListLayout,
+  createMasonryLayout,
+  VirtualLayout,
+} from '../../src/ts/virtualizer';
 
 // =============================================================================
 // TYPES
@@ -35,62 +73,482 @@ interface Item {
 
 interface VirtualizedListProps {
   items: Item[];
-  itemHeight: number;
+  // Where items go (default: a vertical list); read once
+  layout?: VirtualLayout<number>;
+  // For the default list: rows size to their content, and this is only
+  // assumed until a row is measured
+  estimatedItemHeight?: number;
   containerHeight: number;
+  // Items (rows of items in a grid) rendered beyond each edge of the viewport
   overscan?: number;
+  renderItem?: (props: ItemRowProps) => React.ReactNode;
+  // Text to mark in each row, e.g. from a search query
+  highlight?: (item: Item) => Highlights;
+  ref?: React.Ref<VirtualizedListHandle>;
+  // Rows actually on screen (overscan not included)
+  onRangeChange?: (range: VisibleRange) => void;
+  // Remember the scroll position under this key when the list unmounts (or an
+  // Activity hides it) and restore it when it comes back
+  scrollRestorationKey?: string;
+  // 'listbox' for picking rows, 'feed' for a stream of articles to read
+  role?: 'listbox' | 'feed';
+  'aria-label'?: string;
+  // Items in the whole list, for screen readers (default: items.length); -1
+  // when more may load and the total isn't known
+  setSize?: number;
+  // Position in the whole list of items[0] (default: 1); null when it isn't
+  // known, e.g. pages before it were dropped, which leaves aria-posinset out
+  firstPosition?: number | null;
+  // Rows are loading (announced as aria-busy)
+  busy?: boolean;
+  selectionMode?: SelectionMode;
+  // Controlled: the list only reports changes through onSelectionChange
+  selectedIds?: ReadonlySet<number>;
+  onSelectionChange?: (selectedIds: Set<number>) => void;
+}
+
+type SelectionMode = 'none' | 'single' | 'multiple';
+
+interface VisibleRange {
+  startIndex: number;
+  endIndex: number;
+}
+
+type ScrollAlign = 'start' | 'center' | 'end' | 'auto';
+
+interface ScrollToOptions {
+  // 'auto' scrolls as little as possible and not at all if the row is in view
+  align?: ScrollAlign;
+  behavior?: ScrollBehavior;
+}
+
+export interface VirtualizedListHandle {
+  scrollToIndex: (index: number, options?: ScrollToOptions) => void;
+  scrollToItem: (id: number, options?: ScrollToOptions) => void;
+  getVisibleRange: () => VisibleRange;
+}
+
+// A scroll position as "this far into that item", so it survives rows above
+// it being added, removed or re-measured
+interface ScrollAnchor {
+  id: number;
+  offset: number;
 }
 
 // =============================================================================
 // MOCK DATA & API
 // =============================================================================
 
-function generateItems(startId: number, count: number): Item[] {
+// Remainder that stays non-negative, since newer items have negative ids
+const mod = (n: number, m: number) => ((n % m) + m) % m;
+
+function generateItem(id: number): Item {
   const categories = ['Technology', 'Science', 'Art', 'Music', 'Sports'];
-  return Array.from({ length: count }, (_, i) => ({
-    id: startId + i,
-    title: `Item ${startId + i}`,
-    description: `This is a detailed description for item ${startId + i}. It contains enough text to simulate real content that might appear in a feed or list.`,
-    imageUrl: `https://picsum.photos/seed/${startId + i}/100/100`,
-    category: categories[(startId + i) % categories.length],
-    timestamp: Date.now() - (startId + i) * 60000,
-  }));
+  const sentence =
+    'It contains enough text to simulate real content that might appear in a feed or list.';
+  // Anywhere from one to four sentences, so rows wrap to different heights
+  const filler = Array(mod(id * 7, 4) + 1).fill(sentence).join(' ');
+  return {
+    id,
+    title: `Item ${id}`,
+    description: `This is a detailed description for item ${id}. ${filler}`,
+    imageUrl: `https://picsum.photos/seed/${id}/100/100`,
+    category: categories[mod(id, categories.length)],
+    timestamp: feedStartedAt - id * POST_INTERVAL,
+  };
+}
+
+// The mock feed has FEED_SIZE items going back in time, and a new one is
+// posted every POST_INTERVAL ms. Newer items get lower ids.
+const FEED_SIZE = 10000;
+const POST_INTERVAL = 5000;
+const feedStartedAt = Date.now();
+const newestId = () => -Math.floor((Date.now() - feedStartedAt) / POST_INTERVAL);
+
+type FeedCursor = { olderThan: number } | { newerThan: number };
+
+// Like a server with a time budget, one request looks at this many items at
+// most; a rare match can come back as a short (even empty) page
+const SCAN_LIMIT = 1000;
+
+// What a search can look at, e.g. `category:Music after:2026-01-01 -"night"`
+const itemSchema: QuerySchema<Item> = {
+  fields: {
+    title: { type: 'text', get: (item) => item.title },
+    description: { type: 'text', get: (item) => item.description },
+    category: { type: 'text', get: (item) => item.category },
+    timestamp: { type: 'date', get: (item) => item.timestamp },
+  },
+  dateField: 'timestamp',
+};
+
+// Finding words among the items already loaded, titles and categories first
+const itemSearch: SearchIndexOptions<Item, number> = {
+  key: (item) => item.id,
+  fields: {
+    title: { get: (item) => item.title, weight: 2 },
+    description: { get: (item) => item.description },
+    category: { get: (item) => item.category, weight: 2 },
+  },
+};
+
+// Simulate API delay (and, optionally, a flaky backend). The query is matched
+// on the "server", so results come from the whole feed, not what's loaded.
+function createFeedSource(
+  pageSize: number,
+  failureRate: number = 0,
+  query: string = ''
+): PageSource<Item, FeedCursor> {
+  // Sorting is left to the client, which sorts what it has loaded
+  const { predicate } = compileQuery(query, itemSchema);
+
+  return {
+    fetchPage: async (cursor, signal) => {
+      await sleep(500 + Math.random() * 500, signal);
+      if (Math.random() < failureRate) {
+        throw new Error('Failed to load items');
+      }
+
+      // Scan ids [start, end) from the cursor outwards
+      const items: Item[] = [];
+      let start: number;
+      let end: number;
+      if (cursor && 'newerThan' in cursor) {
+        end = start = cursor.newerThan;
+        while (start > newestId() && end - start < SCAN_LIMIT && items.length < pageSize) {
+          const item = generateItem(--start);
+          if (predicate(item)) items.unshift(item);
+        }
+      } else {
+        start = end = cursor && 'olderThan' in cursor ? cursor.olderThan + 1 : newestId();
+        while (end < FEED_SIZE && end - start < SCAN_LIMIT && items.length < pageSize) {
+          const item = generateItem(end++);
+          if (predicate(item)) items.push(item);
+        }
+      }
+
+      return {
+        items,
+        // There may always be something newer by the time we ask
+        newer: { newerThan: start },
+        older: end < FEED_SIZE ? { olderThan: end - 1 } : null,
+      };
+    },
+  };
+}
+
+// All requests share a few connections. Page loads are 'high' priority and
+// one slot is kept for them, so image prefetches never hold up a page.
+const network = createConcurrencyLimiter(6, { reserved: 1 });
+
+// Send a source's page loads through the pool; each group takes its turn
+function throughNetwork<T, C>(source: PageSource<T, C>, group: string): PageSource<T, C> {
+  return {
+    fetchPage: (cursor, signal) =>
+      network((slot) => source.fetchPage(cursor, slot), { signal, priority: 'high', group }),
+  };
+}
+
+function loadImage(url: string, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve();
+    image.onerror = () => reject(new Error(`Failed to load ${url}`));
+    signal.addEventListener(
+      'abort',
+      () => {
+        image.src = '';
+        reject(signal.reason);
+      },
+      { once: true }
+    );
+    image.src = url;
+  });
 }
 
-// Simulate API delay
-async function fetchItems(page: number, pageSize: number): Promise<Item[]> {
-  await new Promise((resolve) => setTimeout(resolve, 500 + Math.random() * 500));
-  return generateItems(page * pageSize, pageSize);
+// Fetch an image into the browser cache at low priority; rows that scroll out
+// of range before their turn drop out of the queue
+function usePrefetchedImage(url: string): boolean {
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    network((signal) => loadImage(url, signal), {
+      signal: controller.signal,
+      priority: 'low',
+      group: 'images',
+      timeout: 10000,
+    }).then(
+      () => setLoaded(true),
+      () => {}
+    );
+    return () => controller.abort();
+  }, [url]);
+
+  return loaded;
 }
 
 // =============================================================================
 // VIRTUALIZED LIST COMPONENT
 // =============================================================================
 
+// Survives unmounting, e.g. navigating away and back
+const savedScrollAnchors = new Map<string, ScrollAnchor>();
+
+const noSelection: ReadonlySet<number> = new Set();
+
 function VirtualizedList({
   items,
-  itemHeight,
+  layout: layoutProp,
+  estimatedItemHeight = 100,
   containerHeight,
   overscan = 3,
+  renderItem = (props) => <ItemRow {...props} />,
+  highlight,
+  ref,
+  onRangeChange,
+  scrollRestorationKey,
+  role = 'listbox',
+  'aria-label': ariaLabel,
+  setSize = items.length,
+  firstPosition = 1,
+  busy = false,
+  selectionMode = 'none',
+  selectedIds = noSelection,
+  onSelectionChange,
 }: VirtualizedListProps) {
-  const [scrollTop, setScrollTop] = useState(0);
+  // Item positions, estimated until measured; bump the version when they change
+  const [layout] = useState(
+    () => layoutProp ?? createListLayout<number>({ estimate: estimatedItemHeight })
+  );
+  const [layoutVersion, bumpLayout] = useReducer((version: number) => version + 1, 0);
+  const keys = useMemo(() => items.map((item) => item.id), [items]);
+  // The layout outlives renders, so only a committed render may change it; the
+  // re-render this triggers happens before the browser paints
+  useLayoutEffect(() => {
+    layout.sync(keys);
+    bumpLayout();
+  }, [keys]);
+
+  // Everything below works along the scroll axis, whichever way that is
+  const vertical = layout.orientation === 'vertical';
+  const [scrollOffset, setScrollOffset] = useState(0);
+  const [viewportLength, setViewportLength] = useState(vertical ? containerHeight : 0);
+
+  // The row that takes focus (roving tabindex); null until one is picked
+  const [focusedId, setFocusedId] = useState<number | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const anchorRef = useRef<ScrollAnchor | null>(null);
+  // Rendered rows by item id
+  const rowsRef = useRef(new Map<number, HTMLDivElement>());
+  // Focus is being parked on the container, not arriving from outside
+  const parkingFocusRef = useRef(false);
+  // Where a Shift+click or Shift+arrow range starts
+  const selectionAnchorRef = useRef<number | null>(null);
+  const onRangeChangeRef = useRef(onRangeChange);
+  onRangeChangeRef.current = onRangeChange;
+
+  const scrollOf = (container: HTMLElement) =>
+    vertical ? container.scrollTop : container.scrollLeft;
+  const lengthOf = (container: HTMLElement) =>
+    vertical ? container.clientHeight : container.clientWidth;
+
+  const captureAnchor = useCallback((offset: number): ScrollAnchor | null => {
+    if (layout.count === 0) return null;
+    const index = layout.range(offset, 1).start;
+    return { id: layout.keyAt(index), offset: offset - layout.offset(index) };
+  }, []);
+
+  // Put the anchor item back where it was after items before it moved;
+  // returns false if the anchor isn't loaded
+  const restoreAnchor = useCallback(() => {
+    const container = containerRef.current;
+    const anchor = anchorRef.current;
+    const index = anchor ? layout.indexOf(anchor.id) : -1;
+    if (!container || !anchor || index === -1) return false;
+
+    const offset = layout.offset(index) + anchor.offset;
+    if (Math.abs(offset - scrollOf(container)) >= 1) {
+      if (vertical) container.scrollTop = offset;
+      else container.scrollLeft = offset;
+      setScrollOffset(scrollOf(container));
+    }
+    return true;
+  }, []);
+
+  // The container's size decides the columns of a grid (and the width of a
+  // list's rows); the viewport's length decides how many items are on screen
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const resize = () => {
+      if (layout.resize(container.clientWidth, container.clientHeight)) {
+        restoreAnchor();
+        bumpLayout();
+      }
+      setViewportLength(lengthOf(container));
+    };
+    resize();
+
+    const observer = new ResizeObserver(resize);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // One observer measures every rendered item. When items before the anchor
+  // change size, everything after them moves, so scroll by the same amount
+  // and the items on screen stay where they are.
+  const observeRow = useCallback((row: HTMLDivElement) => {
+    observerRef.current ??= new ResizeObserver((entries) => {
+      let changed = false;
+
+      for (const entry of entries) {
+        const index = Number((entry.target as HTMLElement).dataset.index);
+        if (!(index < layout.count)) continue;
+
+        const box = entry.borderBoxSize?.[0];
+        const width = box?.inlineSize ?? entry.contentRect.width;
+        const height = box?.blockSize ?? entry.contentRect.height;
+        if (layout.measure(index, width, height)) changed = true;
+      }
+
+      if (changed) {
+        restoreAnchor();
+        bumpLayout();
+      }
+    });
+
+    const observer = observerRef.current;
+    observer.observe(row);
+    return () => observer.unobserve(row);
+  }, []);
+
+  // A focused row that scrolls out of the window is unmounted, which would
+  // drop focus on the body. Park it on the list instead; the layout effect
+  // below hands it back when the row renders again.
+  const attachRow = useCallback(
+    (row: HTMLDivElement) => {
+      const id = Number(row.dataset.id);
+      rowsRef.current.set(id, row);
+      const unobserve = observeRow(row);
+
+      return () => {
+        unobserve();
+        if (rowsRef.current.get(id) === row) rowsRef.current.delete(id);
+        if (document.activeElement === row) {
+          parkingFocusRef.current = true;
+          containerRef.current?.focus({ preventScroll: true });
+        }
+      };
+    },
+    [observeRow]
+  );
+
+  useEffect(() => () => observerRef.current?.disconnect(), []);
+
+  const scrollTo = useCallback((offset: number, behavior?: ScrollBehavior) => {
+    const container = containerRef.current;
+    if (!container) return;
+    const max = Math.max(0, layout.total - lengthOf(container));
+    const clamped = Math.min(max, Math.max(0, offset));
+    container.scrollTo(vertical ? { top: clamped, behavior } : { left: clamped, behavior });
+  }, []);
+
+  // Bring back the saved position on mount (and when an Activity shows the
+  // list again); the anchoring effect below applies it
+  useLayoutEffect(() => {
+    if (!scrollRestorationKey) return;
+    const saved = savedScrollAnchors.get(scrollRestorationKey);
+    if (saved) anchorRef.current = saved;
+
+    return () => {
+      if (anchorRef.current) savedScrollAnchors.set(scrollRestorationKey, anchorRef.current);
+    };
+  }, [scrollRestorationKey]);
+
+  // Keep the anchor item where it was when items are inserted before it
+  // (e.g. newer items prepended), before the browser paints
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    const restored = restoreAnchor();
+    // An anchor that isn't loaded yet (a restored position) waits for its item
+    if (container && (restored || !anchorRef.current)) {
+      anchorRef.current = captureAnchor(scrollOf(container));
+    }
+  }, [keys]);
+
+  const scrollToIndex = useCallback(
+    (index: number, { align = 'auto', behavior }: ScrollToOptions = {}) => {
+      const container = containerRef.current;
+      if (!container || index < 0 || index >= layout.count) return;
+
+      const target = () => {
+        const start = layout.offset(index);
+        const end = start + layout.size(index) - lengthOf(container);
+        const current = scrollOf(container);
+        switch (align) {
+          case 'start':
+            return start;
+          case 'end':
+            return end;
+          case 'center':
+            return (start + end) / 2;
+          default:
+            if (start < current) return start;
+            return end > current ? end : current;
+        }
+      };
+
+      scrollTo(target(), behavior);
+      // Items on the way may have been estimates; once they have rendered and
+      // been measured, correct for the difference
+      if (behavior !== 'smooth') requestAnimationFrame(() => scrollTo(target()));
+    },
+    []
+  );
+
+  useImperativeHandle(
+    ref,
+    () => ({
+      scrollToIndex,
+      scrollToItem: (id, options) => scrollToIndex(layout.indexOf(id), options),
+      getVisibleRange: () => {
+        const container = containerRef.current;
+        const { start, end } = container
+          ? layout.range(scrollOf(container), lengthOf(container))
+          : layout.range(0, viewportLength);
+        return { startIndex: start, endIndex: end };
+      },
+    }),
+    [scrollToIndex, viewportLength]
+  );
 
   // Defer scroll position updates to keep scrolling smooth
-  const deferredScrollTop = useDeferredValue(scrollTop);
-  const isScrolling = scrollTop !== deferredScrollTop;
+  const deferredScrollOffset = useDeferredValue(scrollOffset);
+  const isScrolling = scrollOffset !== deferredScrollOffset;
 
-  // Calculate visible range
-  const { startIndex, endIndex, offsetY } = useMemo(() => {
-    const start = Math.max(0, Math.floor(deferredScrollTop / itemHeight) - overscan);
-    const visibleCount = Math.ceil(containerHeight / itemHeight);
-    const end = Math.min(items.length - 1, start + visibleCount + overscan * 2);
+  // Calculate visible range; overscan counts rows, so a grid renders whole
+  // rows beyond each edge
+  const { firstVisible, lastVisible, startIndex, endIndex, totalSize } = useMemo(() => {
+    const visible = layout.range(deferredScrollOffset, viewportLength);
+    const reach = overscan * layout.lanes;
 
     return {
-      startIndex: start,
-      endIndex: end,
-      offsetY: start * itemHeight,
+      firstVisible: visible.start,
+      lastVisible: visible.end,
+      startIndex: Math.max(0, visible.start - reach),
+      endIndex: Math.min(layout.count - 1, visible.end + reach),
+      totalSize: layout.total,
     };
-  }, [deferredScrollTop, itemHeight, containerHeight, items.length, overscan]);
+  }, [layout, keys, layoutVersion, deferredScrollOffset, viewportLength, overscan]);
+
+  useEffect(() => {
+    if (lastVisible >= firstVisible) {
+      onRangeChangeRef.current?.({ startIndex: firstVisible, endIndex: lastVisible });
+    }
+  }, [firstVisible, lastVisible]);
 
   // Get visible items
   const visibleItems = useMemo(
@@ -98,44 +556,182 @@ function VirtualizedList({
     [items, startIndex, endIndex]
   );
 
+  // ---------------------------------------------------------------------------
+  // Focus & selection
+  // ---------------------------------------------------------------------------
+
+  // A focused item that's no longer loaded falls back to the first one on screen
+  const focusedIndex = focusedId === null ? -1 : layout.indexOf(focusedId);
+  const activeIndex = focusedIndex !== -1 ? focusedIndex : firstVisible;
+  const activeId = items[activeIndex]?.id;
+  const activeRendered = activeIndex >= startIndex && activeIndex <= endIndex;
+
+  // Move focus to the active row once it's rendered, if focus is in the list
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    const row = activeId === undefined ? undefined : rowsRef.current.get(activeId);
+    const active = document.activeElement;
+    if (!container || !row || active === row) return;
+
+    const rows = Array.from(rowsRef.current.values());
+    if (active === container || rows.includes(active as HTMLDivElement)) {
+      row.focus({ preventScroll: true });
+    }
+  });
+
+  const focusIndex = (index: number) => {
+    if (items.length === 0) return;
+    const clamped = Math.min(items.length - 1, Math.max(0, index));
+    setFocusedId(items[clamped].id);
+    scrollToIndex(clamped);
+    return clamped;
+  };
+
+  const select = (index: number, { toggle = false, range = false } = {}) => {
+    if (selectionMode === 'none' || !onSelectionChange || !items[index]) return;
+    const id = items[index].id;
+
+    if (selectionMode === 'single') {
+      onSelectionChange(new Set([id]));
+      return;
+    }
+
+    const anchorIndex =
+      selectionAnchorRef.current === null ? -1 : layout.indexOf(selectionAnchorRef.current);
+    if (range && anchorIndex !== -1) {
+      // Ctrl+Shift adds the range to what's selected; Shift alone replaces it
+      const next = new Set(toggle ? selectedIds : []);
+      const [from, to] = anchorIndex < index ? [anchorIndex, index] : [index, anchorIndex];
+      for (let i = from; i <= to; i++) next.add(items[i].id);
+      onSelectionChange(next);
+      return;
+    }
+
+    selectionAnchorRef.current = id;
+    if (toggle) {
+      const next = new Set(selectedIds);
+      if (!next.delete(id)) next.add(id);
+      onSelectionChange(next);
+    } else {
+      onSelectionChange(new Set([id]));
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const { lanes } = layout;
+    const page = Math.max(lanes, lastVisible - firstVisible);
+    // Arrows along the scroll axis move a row; across it (in a grid) an item
+    const [back, forward] = vertical ? ['ArrowUp', 'ArrowDown'] : ['ArrowLeft', 'ArrowRight'];
+    const [before, after] = vertical ? ['ArrowLeft', 'ArrowRight'] : ['ArrowUp', 'ArrowDown'];
+    const moves: Record<string, number> = {
+      [forward]: activeIndex + lanes,
+      [back]: activeIndex - lanes,
+      ...(lanes > 1 && { [after]: activeIndex + 1, [before]: activeIndex - 1 }),
+      PageDown: activeIndex + page,
+      PageUp: activeIndex - page,
+      Home: 0,
+      End: items.length - 1,
+    };
+
+    if (e.key in moves) {
+      e.preventDefault();
+      // A Shift+arrow range starts from where focus was
+      if (selectionAnchorRef.current === null) selectionAnchorRef.current = activeId ?? null;
+      const index = focusIndex(moves[e.key]);
+      if (index !== undefined && e.shiftKey && selectionMode === 'multiple') {
+        select(index, { range: true });
+      }
+    } else if (e.key === ' ' || e.key === 'Enter') {
+      e.preventDefault();
+      if (selectionAnchorRef.current === null) selectionAnchorRef.current = activeId ?? null;
+      select(activeIndex, { toggle: selectionMode === 'multiple', range: e.shiftKey });
+    } else if (e.key === 'a' && (e.ctrlKey || e.metaKey) && selectionMode === 'multiple') {
+      e.preventDefault();
+      onSelectionChange?.(new Set(items.map((item) => item.id)));
+    }
+  };
+
+  const handleRowClick = (e: React.MouseEvent, index: number) => {
+    setFocusedId(items[index].id);
+    select(index, { toggle: e.ctrlKey || e.metaKey, range: e.shiftKey });
+  };
+
+  // Focus arriving from outside (e.g. Tab) while the active row is scrolled
+  // away: start from the first row on screen
+  const handleFocus = (e: React.FocusEvent<HTMLDivElement>) => {
+    if (e.target !== containerRef.current) return;
+    if (parkingFocusRef.current) {
+      parkingFocusRef.current = false;
+      return;
+    }
+    setFocusedId(items[firstVisible]?.id ?? null);
+  };
+
   const handleScroll = useCallback((e: React.UIEvent<HTMLDivElement>) => {
-    setScrollTop(e.currentTarget.scrollTop);
+    const offset = scrollOf(e.currentTarget);
+    anchorRef.current = captureAnchor(offset);
+    setScrollOffset(offset);
   }, []);
 
-  const totalHeight = items.length * itemHeight;
-
   return (
     <div
       ref={containerRef}
       onScroll={handleScroll}
+      onKeyDown={handleKeyDown}
+      onFocus={handleFocus}
+      role={role}
+      aria-label={ariaLabel}
+      aria-busy={busy}
+      aria-multiselectable={role === 'listbox' ? selectionMode === 'multiple' : undefined}
+      aria-orientation={role === 'listbox' ? layout.orientation : undefined}
+      // Reachable with Tab even when the row that would take focus isn't rendered
+      tabIndex={activeRendered ? -1 : 0}
       style={{
         height: containerHeight,
         overflow: 'auto',
         position: 'relative',
       }}
     >
-      {/* Spacer for total scroll height */}
-      <div style={{ height: totalHeight, position: 'relative' }}>
-        {/* Visible items container */}
-        <div
-          style={{
-            position: 'absolute',
-            top: offsetY,
-            left: 0,
-            right: 0,
-            opacity: isScrolling ? 0.7 : 1,
-            transition: 'opacity 0.1s',
-          }}
-        >
-          {visibleItems.map((item, index) => (
-            <ItemRow
+      {/* Spacer for the total scroll length; items are placed inside it */}
+      <div
+        style={{
+          position: 'relative',
+          height: vertical ? totalSize : '100%',
+          width: vertical ? undefined : totalSize,
+          opacity: isScrolling ? 0.7 : 1,
+          transition: 'opacity 0.1s',
+        }}
+      >
+        {visibleItems.map((item, i) => {
+          const index = startIndex + i;
+          const position = layout.position(index);
+          const isSelected = selectedIds.has(item.id);
+          return (
+            <div
               key={item.id}
-              item={item}
-              height={itemHeight}
-              isPlaceholder={isScrolling}
-            />
-          ))}
-        </div>
+              ref={attachRow}
+              data-index={index}
+              data-id={item.id}
+              role={role === 'listbox' ? 'option' : 'article'}
+              aria-setsize={setSize}
+              aria-posinset={firstPosition === null ? undefined : firstPosition + index}
+              aria-selected={
+                role === 'listbox' && selectionMode !== 'none' ? isSelected : undefined
+              }
+              tabIndex={item.id === activeId ? 0 : -1}
+              onClick={(e) => handleRowClick(e, index)}
+              style={{ position: 'absolute', ...position }}
+            >
+              {renderItem({
+                item,
+                height: position.height ?? layout.size(index),
+                isPlaceholder: isScrolling,
+                isSelected,
+                highlights: highlight?.(item),
+              })}
+            </div>
+          );
+        })}
       </div>
 
       {/* Scrolling indicator */}
@@ -165,17 +761,41 @@ function VirtualizedList({
 
 interface ItemRowProps {
   item: Item;
+  // Last known height, so a placeholder takes the same space as the real row
   height: number;
   isPlaceholder?: boolean;
+  isSelected?: boolean;
+  highlights?: Highlights;
+}
+
+function Highlighted({ text, spans }: { text: string; spans?: TextSpan[] }) {
+  if (!spans) return <>{text}</>;
+  return (
+    <>
+      {splitHighlights(text, spans).map((part, i) =>
+        part.match ? <mark key={i}>{part.text}</mark> : part.text
+      )}
+    </>
+  );
 }
 
-function ItemRow({ item, height, isPlaceholder }: ItemRowProps) {
+function ItemRow({
+  item,
+  height,
+  isPlaceholder,
+  isSelected = false,
+  highlights = {},
+}: ItemRowProps) {
+  // Keeps prefetching while rows are placeholders
+  const imageLoaded = usePrefetchedImage(item.imageUrl);
+
   // Show simplified version while scrolling for performance
   if (isPlaceholder) {
     return (
       <div
         style={{
           height,
+          boxSizing: 'border-box',
           display: 'flex',
           alignItems: 'center',
           padding: '8px 16px',
@@ -203,26 +823,38 @@ function ItemRow({ item, height, isPlaceholder }: ItemRowProps) {
   return (
     <div
       style={{
-        height,
+        boxSizing: 'border-box',
         display: 'flex',
         alignItems: 'center',
         padding: '8px 16px',
         borderBottom: '1px solid #eee',
-        background: 'white',
+        background: isSelected ? '#e3f2fd' : 'white',
       }}
     >
-      <img
-        src={item.imageUrl}
-        alt={item.title}
-        style={{
-          width: 60,
-          height: 60,
-          borderRadius: 4,
-          marginRight: 16,
-          objectFit: 'cover',
-        }}
-        loading="lazy"
-      />
+      {imageLoaded ? (
+        <img
+          src={item.imageUrl}
+          alt={item.title}
+          style={{
+            width: 60,
+            height: 60,
+            borderRadius: 4,
+            marginRight: 16,
+            objectFit: 'cover',
+          }}
+        />
+      ) : (
+        <div
+          style={{
+            width: 60,
+            height: 60,
+            background: '#eee',
+            borderRadius: 4,
+            marginRight: 16,
+            flexShrink: 0,
+          }}
+        />
+      )}
       <div style={{ flex: 1, minWidth: 0 }}>
         <div
           style={{
@@ -233,21 +865,14 @@ function ItemRow({ item, height, isPlaceholder }: ItemRowProps) {
             textOverflow: 'ellipsis',
           }}
         >
-          {item.title}
+          <Highlighted text={item.title} spans={highlights.title} />
         </div>
-        <div
-          style={{
-            fontSize: 14,
-            color: '#666',
-            whiteSpace: 'nowrap',
-            overflow: 'hidden',
-            textOverflow: 'ellipsis',
-          }}
-        >
-          {item.description}
+        <div style={{ fontSize: 14, color: '#666' }}>
+          <Highlighted text={item.description} spans={highlights.description} />
         </div>
         <div style={{ fontSize: 12, color: '#999', marginTop: 4 }}>
-          {item.category} • {new Date(item.timestamp).toLocaleTimeString()}
+          <Highlighted text={item.category} spans={highlights.category} /> •{' '}
+          {new Date(item.timestamp).toLocaleTimeString()}
         </div>
       </div>
     </div>
@@ -284,66 +909,146 @@ function LoadingIndicator() {
 }
 
 // =============================================================================
-// MAIN INFINITE SCROLL COMPONENT
+// RETRY / ERROR STATES
 // =============================================================================
 
-export function InfiniteScrollList() {
-  const [items, setItems] = useState<Item[]>([]);
-  const [page, setPage] = useState(0);
-  const [hasMore, setHasMore] = useState(true);
-  const [isPending, startTransition] = useTransition();
+interface BackoffState {
+  attempt: number;
+  delay: number;
+}
 
-  const containerRef = useRef<HTMLDivElement>(null);
-  const loadingRef = useRef<HTMLDivElement>(null);
+function BackoffIndicator({ attempt, delay }: BackoffState) {
+  return (
+    <div style={{ padding: 20, textAlign: 'center', color: '#b26a00' }}>
+      Request failed, retrying in {(delay / 1000).toFixed(1)}s (attempt {attempt + 1})...
+    </div>
+  );
+}
 
-  const PAGE_SIZE = 50;
-  const ITEM_HEIGHT = 100;
-  const CONTAINER_HEIGHT = 600;
+function SourceUnavailableBanner() {
+  return (
+    <div
+      style={{
+        padding: '8px 16px',
+        background: '#fff3e0',
+        color: '#b26a00',
+        fontSize: 14,
+        borderBottom: '1px solid #ffe0b2',
+      }}
+    >
+      Source unavailable: pausing requests for a few seconds
+    </div>
+  );
+}
 
-  // Initial load
-  useEffect(() => {
-    loadMore();
-  }, []);
+function LoadError({ error, onRetry }: { error: Error; onRetry: () => void }) {
+  return (
+    <div style={{ padding: 20, textAlign: 'center', color: '#c62828' }}>
+      {error.message}
+      <button onClick={onRetry} style={{ marginLeft: 12 }}>
+        Try again
+      </button>
+    </div>
+  );
+}
 
-  // Intersection Observer for infinite scroll
-  useEffect(() => {
-    if (!loadingRef.current) return;
+// =============================================================================
+// MAIN INFINITE SCROLL COMPONENT
+// =============================================================================
 
-    const observer = new IntersectionObserver(
-      (entries) => {
-        if (entries[0].isIntersecting && hasMore && !isPending) {
-          loadMore();
-        }
-      },
-      { threshold: 0.1 }
-    );
+// Simulated flakiness so the retry path is visible in the demo
+const flakyFeed = createFeedSource(50, 0.2);
 
-    observer.observe(loadingRef.current);
+interface InfiniteScrollListProps {
+  source?: PageSource<Item, any>;
+}
 
-    return () => observer.disconnect();
-  }, [hasMore, isPending]);
+export function InfiniteScrollList({ source = flakyFeed }: InfiniteScrollListProps) {
+  const [backoff, setBackoff] = useState<BackoffState | null>(null);
+  const [visibleRange, setVisibleRange] = useState<VisibleRange | null>(null);
+  const [find, setFind] = useState('');
+  const [findPosition, setFindPosition] = useState(0);
 
-  const loadMore = useCallback(() => {
-    startTransition(async () => {
-      try {
-        const newItems = await fetchItems(page, PAGE_SIZE);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const listRef = useRef<VirtualizedListHandle>(null);
 
-        if (newItems.length < PAGE_SIZE) {
-          setHasMore(false);
-        }
+  const ESTIMATED_ITEM_HEIGHT = 100;
+  const CONTAINER_HEIGHT = 600;
+  // Pages kept in memory; the rest are fetched again when scrolled back to
+  const MAX_PAGES = 5;
+  // Rows from either end of the window that start loading the next page
+  const EDGE_ROWS = 10;
+
+  // Stop hitting the source after repeated failures; retry() waits out the cooldown
+  const [breaker] = useState(() =>
+    createCircuitBreaker(source.fetchPage, { failureThreshold: 3, cooldown: 5000 })
+  );
+  const circuitState = useSyncExternalStore(breaker.onStateChange, () => breaker.state);
 
-        setItems((prev) => [...prev, ...newItems]);
-        setPage((p) => p + 1);
-      } catch (error) {
-        console.error('Failed to load items:', error);
-      }
-    });
-  }, [page]);
+  // Every page request backs off and retries; the loader's signal stops the
+  // retries too when the list unmounts
+  const [resilientSource] = useState<PageSource<Item, unknown>>(() => {
+    const pooled = throughNetwork({ fetchPage: breaker }, 'pages');
+    return {
+      fetchPage: (cursor, signal) =>
+        retry((attemptSignal) => pooled.fetchPage(cursor, attemptSignal), {
+          maxAttempts: 4,
+          baseDelay: 500,
+          jitter: 'equal',
+          signal,
+          onRetry: (_error, attempt, delay) => setBackoff({ attempt, delay }),
+        }).finally(() => setBackoff(null)),
+    };
+  });
+
+  const [{ items, status, errors }, loader] = usePaginatedLoader(resilientSource, {
+    maxPages: MAX_PAGES,
+  });
 
   // Defer the items array for smoother updates
   const deferredItems = useDeferredValue(items);
   const isStale = items !== deferredItems;
 
+  // Find in what's loaded: pages are indexed as they arrive and dropped from
+  // the index when the window lets them go
+  const { index, version, isIndexing } = useSearchIndex(items, itemSearch);
+  const deferredFind = useDeferredValue(find);
+  const hits = useMemo(
+    () => index.search(deferredFind, { typos: 1 }),
+    [index, version, deferredFind]
+  );
+  const hitsById = useMemo(
+    () => new Map<number, SearchHit<Item>>(hits.map((hit) => [hit.item.id, hit])),
+    [hits]
+  );
+  const highlightHit = useCallback(
+    (item: Item) => {
+      const hit = hitsById.get(item.id);
+      return hit ? index.highlight(hit) : {};
+    },
+    [index, hitsById]
+  );
+
+  // Best match first, then on through the ranking
+  const stepFind = (step: number) => {
+    if (hits.length === 0) return;
+    let position = (findPosition + step + hits.length) % hits.length;
+    // Nothing picked yet: forwards starts at the first hit, backwards at the last
+    if (findPosition === -1) position = step > 0 ? 0 : hits.length - 1;
+    setFindPosition(position);
+    listRef.current?.scrollToItem(hits[position].item.id, { align: 'center' });
+  };
+
+  // Reaching either end of the window loads the next page that way. The
+  // loader ignores the call while that page is loading, failed or exhausted.
+  const handleRangeChange = (range: VisibleRange) => {
+    setVisibleRange(range);
+    if (range.endIndex >= deferredItems.length - EDGE_ROWS) loader.load('older');
+    if (range.startIndex < EDGE_ROWS) loader.load('newer');
+  };
+
+  const loadingIndicator = backoff ? <BackoffIndicator {...backoff} /> : <LoadingIndicator />;
+
   return (
     <div style={{ maxWidth: 600, margin: '0 auto', fontFamily: 'system-ui' }}>
       <div
@@ -357,27 +1062,81 @@ export function InfiniteScrollList() {
       >
         <h2 style={{ margin: 0 }}>Infinite Scroll Demo</h2>
         <span style={{ color: '#666', fontSize: 14 }}>
+          {visibleRange &&
+            `Viewing ${visibleRange.startIndex + 1}-${visibleRange.endIndex + 1} of `}
           {items.length} items loaded
           {isStale && ' (updating...)'}
         </span>
       </div>
 
+      <div style={{ padding: '8px 16px', display: 'flex', gap: 8 }}>
+        <button onClick={() => loader.reload('newer')} disabled={status.newer === 'loading'}>
+          Load newer
+        </button>
+        <button onClick={() => listRef.current?.scrollToIndex(0, { align: 'start' })}>
+          Back to top
+        </button>
+
+        <input
+          type="search"
+          value={find}
+          onChange={(e) => {
+            setFind(e.target.value);
+            setFindPosition(-1);
+          }}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') stepFind(e.shiftKey ? -1 : 1);
+          }}
+          placeholder="Find in loaded items"
+          style={{ flex: 1, marginLeft: 'auto' }}
+        />
+        {find && (
+          <span style={{ color: '#666', fontSize: 14, alignSelf: 'center' }}>
+            {findPosition >= 0 && findPosition < hits.length
+              ? `${findPosition + 1} of ${hits.length}`
+              : `${hits.length} matches`}
+            {isIndexing && '…'}
+          </span>
+        )}
+      </div>
+
+      {circuitState === 'open' && <SourceUnavailableBanner />}
+
       <div style={{ position: 'relative' }}>
+        {/* Loading newer items above */}
+        {status.newer === 'loading' && loadingIndicator}
+        {status.newer === 'error' && (
+          <LoadError error={errors.newer as Error} onRetry={() => loader.reload('newer')} />
+        )}
+
         <VirtualizedList
+          ref={listRef}
           items={deferredItems}
-          itemHeight={ITEM_HEIGHT}
+          estimatedItemHeight={ESTIMATED_ITEM_HEIGHT}
           containerHeight={CONTAINER_HEIGHT}
           overscan={5}
+          onRangeChange={handleRangeChange}
+          scrollRestorationKey="infinite-scroll"
+          highlight={deferredFind ? highlightHit : undefined}
+          role="feed"
+          aria-label="Feed"
+          // Pages come and go at both ends, so the full length is unknown, and
+          // positions are only known while the newest page is still loaded
+          setSize={-1}
+          firstPosition={status.newer === 'exhausted' ? 1 : null}
+          busy={status.newer === 'loading' || status.older === 'loading'}
         />
 
-        {/* Loading trigger element */}
-        <div ref={loadingRef} style={{ height: 1 }} />
+        {/* Loading older items below */}
+        {status.older === 'loading' && loadingIndicator}
 
-        {/* Loading indicator */}
-        {isPending && <LoadingIndicator />}
+        {/* Gave up after retries */}
+        {status.older === 'error' && (
+          <LoadError error={errors.older as Error} onRetry={() => loader.reload('older')} />
+        )}
 
         {/* End of list */}
-        {!hasMore && (
+        {status.older === 'exhausted' && (
           <div
             style={{
               padding: 20,
@@ -404,49 +1163,67 @@ export function InfiniteScrollList() {
 // ADVANCED: WITH FILTERING
 // =============================================================================
 
-export function InfiniteScrollWithFilter() {
-  const [allItems, setAllItems] = useState<Item[]>([]);
-  const [filter, setFilter] = useState('');
-  const [page, setPage] = useState(0);
-  const [hasMore, setHasMore] = useState(true);
-  const [isPending, startTransition] = useTransition();
+interface InfiniteScrollWithFilterProps {
+  // A page source that only returns items matching `query`, which is always
+  // a valid query for itemSchema
+  sourceFor?: (query: string) => PageSource<Item, any>;
+}
 
-  const loadingRef = useRef<HTMLDivElement>(null);
+const searchFeed = (query: string) => createFeedSource(50, 0, query);
 
-  const PAGE_SIZE = 50;
-  const ITEM_HEIGHT = 100;
+// Points at the part of the query that didn't parse
+function QueryError({ query, error }: { query: string; error: QuerySyntaxError }) {
+  const { start, end } = error.span;
+  return (
+    <div role="alert" style={{ marginTop: 8, fontSize: 14, color: '#c62828' }}>
+      {error.message}
+      <div style={{ fontFamily: 'monospace', marginTop: 4, whiteSpace: 'pre' }}>
+        {query.slice(0, start)}
+        <mark style={{ background: '#ffcdd2' }}>{query.slice(start, end) || ' '}</mark>
+        {query.slice(end)}
+      </div>
+    </div>
+  );
+}
+
+export function InfiniteScrollWithFilter({
+  sourceFor = searchFeed,
+}: InfiniteScrollWithFilterProps) {
+  const [filter, setFilter] = useState('');
+  const [selectedIds, setSelectedIds] = useState<ReadonlySet<number>>(() => new Set());
+
+  const ESTIMATED_ITEM_HEIGHT = 100;
   const CONTAINER_HEIGHT = 500;
 
-  // Defer filter for smooth typing
-  const deferredFilter = useDeferredValue(filter);
-  const isFiltering = filter !== deferredFilter;
+  // Wait for a pause in typing before asking the server. A query that
+  // doesn't parse shows its error and keeps the last good one's results.
+  const input = useDebouncedValue(filter.trim(), 250);
+  const { query, error } = useCompiledQuery(input, itemSchema);
 
-  // Filter items (expensive operation)
-  const filteredItems = useMemo(() => {
-    if (!deferredFilter) return allItems;
+  // Each query pages through its own results with its own cursor
+  const { state, loader, isPending } = usePaginatedQuery(
+    (forQuery: string) => throughNetwork(sourceFor(forQuery), 'filtered-pages'),
+    query.source
+  );
+  const { status, errors } = state;
+  const isFiltering = filter.trim() !== input || isPending;
 
-    const lowerFilter = deferredFilter.toLowerCase();
-    return allItems.filter(
-      (item) =>
-        item.title.toLowerCase().includes(lowerFilter) ||
-        item.description.toLowerCase().includes(lowerFilter) ||
-        item.category.toLowerCase().includes(lowerFilter)
-    );
-  }, [allItems, deferredFilter]);
+  const items = useMemo(
+    () => (query.compare ? [...state.items].sort(query.compare) : state.items),
+    [state.items, query]
+  );
 
-  // Initial load
-  useEffect(() => {
-    loadMore();
-  }, []);
+  const loadingRef = useRef<HTMLDivElement>(null);
 
-  // Intersection Observer
+  // Intersection Observer. Re-observing after each load checks whether the
+  // trigger is still in view; the loader drops calls while a page is loading.
   useEffect(() => {
     if (!loadingRef.current) return;
 
     const observer = new IntersectionObserver(
       (entries) => {
-        if (entries[0].isIntersecting && hasMore && !isPending && !filter) {
-          loadMore();
+        if (entries[0].isIntersecting) {
+          loader.load();
         }
       },
       { threshold: 0.1 }
@@ -454,20 +1231,7 @@ export function InfiniteScrollWithFilter() {
 
     observer.observe(loadingRef.current);
     return () => observer.disconnect();
-  }, [hasMore, isPending, filter]);
-
-  const loadMore = useCallback(() => {
-    startTransition(async () => {
-      const newItems = await fetchItems(page, PAGE_SIZE);
-
-      if (newItems.length < PAGE_SIZE) {
-        setHasMore(false);
-      }
-
-      setAllItems((prev) => [...prev, ...newItems]);
-      setPage((p) => p + 1);
-    });
-  }, [page]);
+  }, [loader, status.older]);
 
   return (
     <div style={{ maxWidth: 600, margin: '0 auto', fontFamily: 'system-ui' }}>
@@ -478,12 +1242,13 @@ export function InfiniteScrollWithFilter() {
           type="text"
           value={filter}
           onChange={(e) => setFilter(e.target.value)}
-          placeholder="Filter items..."
+          placeholder='Filter items, e.g. category:Music -"night" sort:title'
+          aria-invalid={error !== null}
           style={{
             width: '100%',
             padding: '12px 16px',
             fontSize: 16,
-            border: '1px solid #ddd',
+            border: `1px solid ${error ? '#e57373' : '#ddd'}`,
             borderRadius: 8,
             boxSizing: 'border-box',
           }}
@@ -499,25 +1264,45 @@ export function InfiniteScrollWithFilter() {
           }}
         >
           <span>
-            Showing {filteredItems.length} of {allItems.length} items
+            {items.length} {query.source ? 'matches' : 'items'} loaded
+            {status.older !== 'exhausted' && ', scroll for more'}
           </span>
-          {isFiltering && <span>Filtering...</span>}
+          {selectedIds.size > 0 && (
+            <span>
+              {selectedIds.size} selected{' '}
+              <button onClick={() => setSelectedIds(new Set())}>Clear</button>
+            </span>
+          )}
+          {isFiltering && <span>Searching...</span>}
         </div>
+
+        {error && <QueryError query={input} error={error} />}
       </div>
 
       <div style={{ opacity: isFiltering ? 0.6 : 1, transition: 'opacity 0.2s' }}>
         <VirtualizedList
-          items={filteredItems}
-          itemHeight={ITEM_HEIGHT}
+          items={items}
+          estimatedItemHeight={ESTIMATED_ITEM_HEIGHT}
           containerHeight={CONTAINER_HEIGHT}
           overscan={5}
+          highlight={query.highlight}
+          aria-label="Search results"
+          setSize={status.older === 'exhausted' ? items.length : -1}
+          busy={status.older === 'loading'}
+          selectionMode="multiple"
+          selectedIds={selectedIds}
+          onSelectionChange={setSelectedIds}
         />
 
         <div ref={loadingRef} style={{ height: 1 }} />
 
-        {isPending && !filter && <LoadingIndicator />}
+        {status.older === 'loading' && <LoadingIndicator />}
+
+        {status.older === 'error' && (
+          <LoadError error={errors.older as Error} onRetry={() => loader.reload()} />
+        )}
 
-        {!hasMore && !filter && (
+        {status.older === 'exhausted' && (
           <div style={{ padding: 20, textAlign: 'center', color: '#999' }}>
             End of list
           </div>
@@ -533,6 +1318,119 @@ export function InfiniteScrollWithFilter() {
   );
 }
 
+// =============================================================================
+// ADVANCED: GRID, MASONRY & HORIZONTAL LAYOUTS
+// =============================================================================
+
+type GalleryLayout = 'grid' | 'masonry' | 'horizontal';
+
+// Each layout decides its columns from the container's width as it resizes
+const galleryLayouts: Record<GalleryLayout, () => VirtualLayout<number>> = {
+  grid: () => createGridLayout({ minItemWidth: 160, itemHeight: 200, gap: 8 }),
+  masonry: () => createMasonryLayout({ minColumnWidth: 160, estimate: 220, gap: 8 }),
+  horizontal: () => createListLayout({ estimate: 168, orientation: 'horizontal' }),
+};
+
+interface ItemCardProps extends ItemRowProps {
+  // Fixed width, for a horizontal list where cards don't stretch
+  width?: number;
+  // Fixed image height, for a masonry column; otherwise the image fills the card
+  imageHeight?: number;
+}
+
+function ItemCard({ item, height, isPlaceholder, width, imageHeight }: ItemCardProps) {
+  const imageLoaded = usePrefetchedImage(item.imageUrl);
+
+  if (isPlaceholder) {
+    return <div style={{ height, width: width ?? '100%', background: '#eee', borderRadius: 8 }} />;
+  }
+
+  return (
+    <div
+      style={{
+        boxSizing: 'border-box',
+        width: width ?? '100%',
+        height: '100%',
+        marginRight: width ? 8 : 0,
+        display: 'flex',
+        flexDirection: 'column',
+        border: '1px solid #eee',
+        borderRadius: 8,
+        overflow: 'hidden',
+        background: 'white',
+      }}
+    >
+      <div
+        style={{
+          flex: imageHeight ? undefined : 1,
+          height: imageHeight,
+          minHeight: 60,
+          background: imageLoaded ? `center / cover url(${item.imageUrl})` : '#eee',
+        }}
+      />
+      <div style={{ padding: 8 }}>
+        <div style={{ fontWeight: 'bold', fontSize: 14 }}>{item.title}</div>
+        <div style={{ fontSize: 12, color: '#999' }}>{item.category}</div>
+      </div>
+    </div>
+  );
+}
+
+const galleryFeed = createFeedSource(60);
+
+export function InfiniteScrollGallery({ source = galleryFeed }: InfiniteScrollListProps) {
+  const [kind, setKind] = useState<GalleryLayout>('grid');
+  const [{ items, status, errors }, loader] = usePaginatedLoader(
+    throughNetwork(source, 'gallery')
+  );
+
+  // The list reads its layout once, so a new kind gets a new list (see `key`)
+  const layout = useMemo(() => galleryLayouts[kind](), [kind]);
+  const horizontal = kind === 'horizontal';
+
+  const handleRangeChange = (range: VisibleRange) => {
+    if (range.endIndex >= items.length - 20) loader.load('older');
+  };
+
+  return (
+    <div style={{ maxWidth: 900, margin: '0 auto', fontFamily: 'system-ui' }}>
+      <div style={{ padding: 16, borderBottom: '1px solid #eee', display: 'flex', gap: 8 }}>
+        <h2 style={{ margin: 0, marginRight: 'auto' }}>Gallery</h2>
+        {(Object.keys(galleryLayouts) as GalleryLayout[]).map((option) => (
+          <button key={option} onClick={() => setKind(option)} disabled={option === kind}>
+            {option}
+          </button>
+        ))}
+      </div>
+
+      <VirtualizedList
+        key={kind}
+        items={items}
+        layout={layout}
+        containerHeight={horizontal ? 240 : 600}
+        overscan={2}
+        renderItem={(props) => (
+          <ItemCard
+            {...props}
+            width={horizontal ? 160 : undefined}
+            imageHeight={kind === 'masonry' ? 90 + mod(props.item.id * 37, 120) : undefined}
+          />
+        )}
+        onRangeChange={handleRangeChange}
+        role="feed"
+        aria-label="Gallery"
+        setSize={status.older === 'exhausted' ? items.length : -1}
+        busy={status.older === 'loading'}
+      />
+
+      {status.older === 'loading' && <LoadingIndicator />}
+      {status.older === 'error' && (
+        <LoadError error={errors.older as Error} onRetry={() => loader.reload()} />
+      )}
+    </div>
+  );
+}
+
 // =============================================================================
 // EXPORTS
 // =============================================================================
@@ -0,0 +1,530 @@
+/**
+ * React Hooks for the Concurrency Utilities
+ * React Paris Meetup #011
+ *
+ * Wraps the closures from concurrency.ts so they can live inside components:
+ * stable identity across renders, always the latest callback, and nothing
+ * left running after unmount.
+ */
+
+import {
+  DependencyList,
+  useCallback,
+  useEffect,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useState,
+  useSyncExternalStore,
+  useTransition,
+} from 'react';
+import {
+  AbortableOperation,
+  ChunkOptions,
+  createConcurrencyLimiter,
+  createSequencer,
+  LimiterCallOptions,
+  rateLimit,
+  RateLimitedFunction,
+  RateLimitOptions,
+  SequencerOptions,
+} from './concurrency';
+import {
+  createPaginatedLoader,
+  Direction,
+  PageSource,
+  PaginatedLoader,
+  PaginatedLoaderOptions,
+  PaginatedLoaderState,
+} from './paginated-loader';
+import { compileQuery, CompiledQuery, QuerySchema, QuerySyntaxError } from './query-language';
+import { ResourceCache, stableHash } from './resource-cache';
+import { createSearchIndex, SearchIndex, SearchIndexOptions } from './search-index';
+import { createSubject, Stream, Subject } from './streams';
+import { PayloadOf, ResultOf, WorkerHandlers, WorkerPool } from './worker-pool';
+
+// =============================================================================
+// INTERNALS
+// =============================================================================
+
+// Keep a ref pointing at the latest value without re-creating consumers
+function useLatest<T>(value: T) {
+  const ref = useRef(value);
+  useLayoutEffect(() => {
+    ref.current = value;
+  });
+  return ref;
+}
+
+// Aborted on unmount; StrictMode's remount gets a fresh controller
+function useUnmountSignal() {
+  const controllerRef = useRef<AbortController | null>(null);
+  useEffect(() => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    return () => controller.abort();
+  }, []);
+  return controllerRef;
+}
+
+function anySignal(...signals: (AbortSignal | undefined)[]): AbortSignal | undefined {
+  const present = signals.filter((s): s is AbortSignal => s !== undefined);
+  return present.length > 1 ? AbortSignal.any(present) : present[0];
+}
+
+function useRateLimitedCallback<T extends (...args: any[]) => any>(
+  callback: T,
+  wait: number,
+  { leading, trailing, maxWait, clock }: RateLimitOptions
+): RateLimitedFunction<T> {
+  const callbackRef = useLatest(callback);
+
+  const limited = useMemo(
+    () =>
+      rateLimit((...args: Parameters<T>) => callbackRef.current(...args), wait, {
+        leading,
+        trailing,
+        maxWait,
+        clock,
+      }),
+    [wait, leading, trailing, maxWait, clock]
+  );
+
+  // Drop any queued call when the options change or the component unmounts
+  useEffect(() => () => limited.cancel(), [limited]);
+
+  return limited as RateLimitedFunction<T>;
+}
+
+// =============================================================================
+// CALLBACK HOOKS
+// =============================================================================
+
+export function useDebouncedCallback<T extends (...args: any[]) => any>(
+  callback: T,
+  delay: number,
+  options: RateLimitOptions = {}
+): RateLimitedFunction<T> {
+  return useRateLimitedCallback(callback, delay, {
+    leading: options.leading ?? false,
+    trailing: options.trailing ?? true,
+    maxWait: options.maxWait,
+    clock: options.clock,
+  });
+}
+
+// Leading + trailing by default so the final call in a burst is never lost
+export function useThrottledCallback<T extends (...args: any[]) => any>(
+  callback: T,
+  limit: number,
+  options: Omit<RateLimitOptions, 'maxWait'> = {}
+): RateLimitedFunction<T> {
+  return useRateLimitedCallback(callback, limit, {
+    leading: options.leading ?? true,
+    trailing: options.trailing ?? true,
+    maxWait: limit,
+    clock: options.clock,
+  });
+}
+
+// =============================================================================
+// VALUE HOOKS: Timer-based counterparts to useDeferredValue
+// =============================================================================
+
+export function useDebouncedValue<T>(value: T, delay: number): T {
+  const [debounced, setDebounced] = useState(value);
+  // Wrap in an updater so function values aren't mistaken for one
+  const update = useDebouncedCallback((next: T) => setDebounced(() => next), delay);
+
+  useEffect(() => {
+    update(value);
+  }, [value, update]);
+
+  return debounced;
+}
+
+export function useThrottledValue<T>(value: T, limit: number): T {
+  const [throttled, setThrottled] = useState(value);
+  const update = useThrottledCallback((next: T) => setThrottled(() => next), limit);
+
+  useEffect(() => {
+    update(value);
+  }, [value, update]);
+
+  return throttled;
+}
+
+// =============================================================================
+// QUEUE HOOKS
+// =============================================================================
+
+// Operations still queued or running when the component unmounts are aborted
+export function useSequencer<T>(): (
+  operation: AbortableOperation<T>,
+  options?: SequencerOptions
+) => Promise<T> {
+  const [sequencer] = useState(() => createSequencer<T>());
+  const unmount = useUnmountSignal();
+
+  return useMemo(
+    () =>
+      (operation: AbortableOperation<T>, options: SequencerOptions = {}) =>
+        sequencer(operation, {
+          ...options,
+          signal: anySignal(options.signal, unmount.current?.signal),
+        }),
+    [sequencer]
+  );
+}
+
+// The limit can change between renders without dropping queued work
+export function useConcurrencyLimiter(
+  limit: number
+): <T>(operation: AbortableOperation<T>, options?: LimiterCallOptions) => Promise<T> {
+  const [limiter] = useState(() => createConcurrencyLimiter(limit));
+  const unmount = useUnmountSignal();
+
+  useEffect(() => limiter.setLimit(limit), [limiter, limit]);
+
+  return useMemo(
+    () =>
+      <T>(operation: AbortableOperation<T>, options: LimiterCallOptions = {}) =>
+        limiter(operation, {
+          ...options,
+          signal: anySignal(options.signal, unmount.current?.signal),
+        }),
+    [limiter]
+  );
+}
+
+// =============================================================================
+// LATEST-WINS ASYNC
+// =============================================================================
+
+export interface LatestAsyncState<T> {
+  // Result of the latest request to finish; kept while a newer one loads
+  data: T | undefined;
+  error: unknown;
+  // A request is in flight, or its result is still rendering in a transition
+  isPending: boolean;
+  // `data` belongs to older inputs than the ones on screen
+  isStale: boolean;
+}
+
+// Re-runs `fn` when `deps` change, aborting the previous run through its
+// signal (pair it with fetchWithCancel). A response that arrives after a newer
+// request started is dropped, and results are committed in a transition so the
+// old ones stay visible and interactive while the new ones render.
+export function useLatestAsync<T>(
+  fn: (signal: AbortSignal) => Promise<T>,
+  deps: DependencyList
+): LatestAsyncState<T> {
+  const fnRef = useLatest(fn);
+  const latestRequest = useRef(0);
+  const [requested, setRequested] = useState(0);
+  const [result, setResult] = useState<{ id: number; data?: T; error?: unknown }>({ id: 0 });
+  const [isTransitionPending, startTransition] = useTransition();
+
+  useEffect(() => {
+    const id = ++latestRequest.current;
+    const controller = new AbortController();
+    setRequested(id);
+
+    fnRef.current(controller.signal).then(
+      (data) => {
+        if (id !== latestRequest.current) return;
+        startTransition(() => setResult({ id, data }));
+      },
+      (error) => {
+        if (controller.signal.aborted || id !== latestRequest.current) return;
+        startTransition(() => setResult((previous) => ({ id, data: previous.data, error })));
+      }
+    );
+
+    return () => controller.abort();
+  }, deps);
+
+  return {
+    data: result.data,
+    error: result.error,
+    isPending: result.id !== requested || isTransitionPending,
+    isStale: result.id !== 0 && result.id !== requested,
+  };
+}
+
+// =============================================================================
+// RESOURCE HOOKS
+// =============================================================================
+
+// Returns the cached promise for `key`, ready for use(). Re-renders when a
+// background refetch swaps in fresh data, without suspending again.
+export function useCachedPromise<K, V>(cache: ResourceCache<K, V>, key: K): Promise<V> {
+  const subscribe = useCallback((onChange: () => void) => cache.subscribe(onChange), [cache]);
+  return useSyncExternalStore(subscribe, () => cache.read(key));
+}
+
+// =============================================================================
+// PAGINATION HOOKS
+// =============================================================================
+
+// Loads the first page on mount and aborts whatever is in flight on unmount.
+// `source` and `options` are read once.
+export function usePaginatedLoader<T, C>(
+  source: PageSource<T, C>,
+  options?: PaginatedLoaderOptions
+): [PaginatedLoaderState<T, C>, PaginatedLoader<T, C>] {
+  const [loader] = useState(() => createPaginatedLoader(source, options));
+  const state = useSyncExternalStore(loader.subscribe, loader.getState);
+
+  useEffect(() => {
+    loader.load('older');
+    return () => loader.cancel();
+  }, [loader]);
+
+  return [state, loader];
+}
+
+export interface PaginatedQueryOptions extends PaginatedLoaderOptions {
+  // Queries whose pages are kept, least recently used dropped first (default: 10)
+  maxQueries?: number;
+}
+
+export interface PaginatedQuery<T, C> {
+  // Pages of the query on screen, which lags `query` while it loads
+  state: PaginatedLoaderState<T, C>;
+  // The loader on screen; load() and reload() do nothing once a newer query
+  // has taken over, even while this one is still shown
+  loader: PaginatedLoader<T, C>;
+  // The latest query's first page is on its way
+  isPending: boolean;
+}
+
+// A loader per distinct query (compared with stableHash), so returning to an
+// earlier query shows its pages and carries on from its cursor. A new query
+// aborts the previous one's requests; its results stay on screen, inside a
+// transition, until the new query's first page lands.
+export function usePaginatedQuery<Q, T, C>(
+  sourceFor: (query: Q) => PageSource<T, C>,
+  query: Q,
+  options: PaginatedQueryOptions = {}
+): PaginatedQuery<T, C> {
+  const { maxQueries = 10, ...loaderOptions } = options;
+  const key = stableHash(query);
+  const sourceForRef = useLatest(sourceFor);
+  const [loaders] = useState(() => new Map<string, PaginatedLoader<T, C>>());
+
+  const loaderFor = (id: string, forQuery: Q) => {
+    const loader =
+      loaders.get(id) ?? createPaginatedLoader(sourceForRef.current(forQuery), loaderOptions);
+    loaders.delete(id);
+    loaders.set(id, loader);
+    while (loaders.size > maxQueries) {
+      loaders.delete(loaders.keys().next().value!);
+    }
+    return loader;
+  };
+
+  const [shown, setShown] = useState(() => loaderFor(key, query));
+  const [isPending, startTransition] = useTransition();
+  const state = useSyncExternalStore(shown.subscribe, shown.getState);
+  // The latest query's loader; cancelling a superseded one sets its
+  // directions back to idle, which would otherwise invite a fresh load()
+  const latestRef = useRef(shown);
+
+  useEffect(() => {
+    const loader = loaderFor(key, query);
+    latestRef.current = loader;
+    let current = true;
+
+    if (loader.getState().pages.length === 0 || loader !== shown) {
+      startTransition(async () => {
+        if (loader.getState().pages.length === 0) await loader.load();
+        // A newer query took over while this one loaded
+        if (!current) return;
+        startTransition(() => setShown(loader));
+      });
+    }
+
+    return () => {
+      current = false;
+      loader.cancel();
+    };
+  }, [key]);
+
+  const loader = useMemo(
+    () => ({
+      ...shown,
+      load: (direction?: Direction) =>
+        latestRef.current === shown ? shown.load(direction) : Promise.resolve(),
+      reload: (direction?: Direction) =>
+        latestRef.current === shown ? shown.reload(direction) : Promise.resolve(),
+    }),
+    [shown]
+  );
+
+  return { state, loader, isPending };
+}
+
+// =============================================================================
+// SEARCH HOOKS
+// =============================================================================
+
+export interface CompiledQueryState<T> {
+  // The last query that compiled; an invalid one leaves it in place
+  query: CompiledQuery<T>;
+  error: QuerySyntaxError | null;
+}
+
+// Compiles `input` against `schema` (keep it stable) on every change, so a
+// half-typed query shows its error without emptying the list.
+export function useCompiledQuery<T>(input: string, schema: QuerySchema<T>): CompiledQueryState<T> {
+  const result = useMemo(() => {
+    try {
+      return { query: compileQuery(input, schema), error: null };
+    } catch (error) {
+      if (error instanceof QuerySyntaxError) return { query: null, error };
+      throw error;
+    }
+  }, [input, schema]);
+
+  // Updating state while rendering re-renders straight away, before any commit
+  const [lastValid, setLastValid] = useState(() => result.query ?? compileQuery('', schema));
+  if (result.query && result.query !== lastValid) setLastValid(result.query);
+
+  return { query: result.query ?? lastValid, error: result.error };
+}
+
+export interface SearchIndexState<T, K> {
+  index: SearchIndex<T, K>;
+  // Bumped whenever the index changes; put it in the deps of a search
+  version: number;
+  // New items are still being indexed
+  isIndexing: boolean;
+}
+
+// Keeps a search index in step with `items`: items that are new (or a new
+// object under the same key) are indexed in chunks between frames, items
+// that went away are dropped. `options` is read once.
+export function useSearchIndex<T, K>(
+  items: readonly T[],
+  options: SearchIndexOptions<T, K>,
+  chunkOptions?: Omit<ChunkOptions, 'signal' | 'onProgress'>
+): SearchIndexState<T, K> {
+  const [{ index, key }] = useState(() => ({
+    index: createSearchIndex(options),
+    key: options.key,
+  }));
+  const [version, setVersion] = useState(0);
+  const [isIndexing, setIsIndexing] = useState(false);
+  const chunkOptionsRef = useLatest(chunkOptions);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const wanted = new Map(items.map((item) => [key(item), item]));
+
+    let removed = false;
+    for (const id of index.keys()) {
+      if (wanted.get(id) === index.get(id)) continue;
+      index.remove(id);
+      removed = true;
+    }
+    if (removed) setVersion((v) => v + 1);
+
+    const added = items.filter((item) => index.get(key(item)) !== item);
+    setIsIndexing(added.length > 0);
+    if (added.length === 0) return;
+
+    // Aborted when `items` changes again; the next run picks up the rest
+    index
+      .addInChunks(added, {
+        ...chunkOptionsRef.current,
+        signal: controller.signal,
+        onProgress: () => setVersion((v) => v + 1),
+      })
+      .then(
+        () => setIsIndexing(false),
+        () => {}
+      );
+
+    return () => controller.abort();
+  }, [index, key, items]);
+
+  return { index, version, isIndexing };
+}
+
+// =============================================================================
+// WORKER HOOKS
+// =============================================================================
+
+export interface WorkerCallState<T> {
+  // Last successful result; kept on screen while a newer call is pending
+  data: T | undefined;
+  error: unknown;
+  isPending: boolean;
+}
+
+// Runs `method` off-thread whenever `payload` changes (memoize it). A call
+// superseded by a newer payload, or by unmount, is aborted in the worker.
+export function useWorkerCall<H extends WorkerHandlers, M extends keyof H & string>(
+  pool: WorkerPool<H>,
+  method: M,
+  payload: PayloadOf<H, M>
+): WorkerCallState<ResultOf<H, M>> {
+  const [state, setState] = useState<WorkerCallState<ResultOf<H, M>>>({
+    data: undefined,
+    error: undefined,
+    isPending: true,
+  });
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setState((previous) => ({ ...previous, isPending: true }));
+
+    pool.call(method, payload, { signal: controller.signal }).then(
+      (data) => {
+        if (controller.signal.aborted) return;
+        setState({ data, error: undefined, isPending: false });
+      },
+      (error) => {
+        if (controller.signal.aborted) return;
+        setState((previous) => ({ ...previous, error, isPending: false }));
+      }
+    );
+
+    return () => controller.abort();
+  }, [pool, method, payload]);
+
+  return state;
+}
+
+// =============================================================================
+// STREAM HOOKS
+// =============================================================================
+
+// A subject that lives as long as the component; push input changes into it
+export function useSubject<T>(): Subject<T> {
+  const [subject] = useState(() => createSubject<T>());
+  return subject;
+}
+
+// Latest value emitted by `stream` (memoize it); unsubscribing on unmount or
+// when the stream changes aborts whatever its operators still have running
+export function useStream<T>(stream: Stream<T>, initialValue: T): T {
+  const [value, setValue] = useState(initialValue);
+
+  useEffect(
+    () =>
+      stream.subscribe({
+        next: (next) => setValue(() => next),
+        error: (error) => {
+          // Surface it in render so an error boundary can catch it
+          setValue(() => {
+            throw error;
+          });
+        },
+      }),
+    [stream]
+  );
+
+  return value;
+}
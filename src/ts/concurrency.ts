@@ -5,49 +5,237 @@
  * that React 19's concurrent features aim to replace/improve.
  */
 
+// Only the demo runs on it, and it loads the module itself
+import type { VirtualClock } from './virtual-clock';
+
 // =============================================================================
-// THROTTLE: Limit execution to once per time period
+// CLOCK: Injectable time source (see virtual-clock.ts for tests)
 // =============================================================================
 
-export function throttle<T extends (...args: any[]) => any>(
+export type TimerId = unknown;
+
+export interface Clock {
+  now: () => number;
+  setTimeout: (callback: () => void, ms: number) => TimerId;
+  clearTimeout: (id: TimerId | undefined) => void;
+  // Give the host a chance to render and handle input
+  yield: () => Promise<void>;
+}
+
+export const systemClock: Clock = {
+  // Monotonic and sub-millisecond, so short slices can be measured
+  now: () => (typeof performance !== 'undefined' ? performance.now() : Date.now()),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (id) => clearTimeout(id as ReturnType<typeof setTimeout>),
+  yield: () =>
+    new Promise((resolve) => {
+      // scheduler.yield() is the modern API, setTimeout fallback
+      if ('scheduler' in globalThis && 'yield' in (globalThis as any).scheduler) {
+        (globalThis as any).scheduler.yield().then(resolve);
+      } else {
+        setTimeout(resolve, 0);
+      }
+    }),
+};
+
+export interface ClockOptions {
+  clock?: Clock;
+}
+
+// =============================================================================
+// RATE LIMITING: Shared core for throttle and debounce
+// =============================================================================
+
+export interface RateLimitOptions extends ClockOptions {
+  // Invoke on the first call of a burst (default: false)
+  leading?: boolean;
+  // Invoke with the latest arguments once the burst settles (default: true)
+  trailing?: boolean;
+  // Upper bound on how long an invocation may be postponed
+  maxWait?: number;
+}
+
+export interface RateLimitedFunction<T extends (...args: any[]) => any> {
+  // Resolves with the result of the invocation this call was folded into
+  (...args: Parameters<T>): Promise<Awaited<ReturnType<T>>>;
+  // Drop the queued trailing call; its callers reject with an AbortError
+  cancel: () => void;
+  // Run the queued trailing call now instead of waiting for the timer
+  flush: () => Promise<Awaited<ReturnType<T>>> | undefined;
+  // Whether a trailing call is waiting on a timer
+  pending: () => boolean;
+}
+
+interface Waiter<R> {
+  resolve: (value: R) => void;
+  reject: (error: any) => void;
+}
+
+// Same error shape fetch() rejects with when its signal aborts
+export function abortError(message = 'The operation was aborted.'): DOMException {
+  return new DOMException(message, 'AbortError');
+}
+
+// Every caller gets a promise, but most ignore it; mark rejections as handled
+// so a cancel() doesn't surface as an unhandled rejection.
+function quiet<T>(promise: Promise<T>): Promise<T> {
+  promise.catch(() => {});
+  return promise;
+}
+
+export function rateLimit<T extends (...args: any[]) => any>(
   fn: T,
-  limit: number
-): (...args: Parameters<T>) => void {
-  let lastCall = 0;
-  let lastResult: ReturnType<T>;
+  wait: number,
+  options: RateLimitOptions = {}
+): RateLimitedFunction<T> {
+  type R = Awaited<ReturnType<T>>;
 
-  return (...args: Parameters<T>) => {
-    const now = Date.now();
-    if (now - lastCall >= limit) {
-      lastCall = now;
-      lastResult = fn(...args);
+  const leading = options.leading ?? false;
+  const trailing = options.trailing ?? true;
+  const maxing = options.maxWait !== undefined;
+  const maxWait = maxing ? Math.max(options.maxWait!, wait) : 0;
+  const clock = options.clock ?? systemClock;
+
+  let timeoutId: TimerId | undefined;
+  let lastArgs: Parameters<T> | undefined;
+  let lastCallTime: number | undefined;
+  let lastInvokeTime = 0;
+  let lastResult: Promise<R> | undefined;
+  let waiters: Waiter<R>[] = [];
+
+  // Hand the latest result to everyone waiting on the current burst
+  const settle = () => {
+    const settled = waiters;
+    waiters = [];
+    const result = lastResult ?? Promise.resolve(undefined as R);
+    for (const { resolve, reject } of settled) {
+      result.then(resolve, reject);
     }
+  };
+
+  const invoke = (time: number): Promise<R> => {
+    const args = lastArgs!;
+    lastArgs = undefined;
+    lastInvokeTime = time;
+    lastResult = quiet(new Promise<R>((resolve) => resolve(fn(...args))));
+    settle();
     return lastResult;
   };
-}
 
-// Leading edge throttle (fires immediately, then throttles)
-export function throttleLeading<T extends (...args: any[]) => any>(
-  fn: T,
-  limit: number
-): (...args: Parameters<T>) => void {
-  let lastCall = 0;
-  let timeoutId: ReturnType<typeof setTimeout> | null = null;
+  const remainingWait = (time: number) => {
+    const sinceCall = time - lastCallTime!;
+    const sinceInvoke = time - lastInvokeTime;
+    const waitTime = wait - sinceCall;
+    return maxing ? Math.min(waitTime, maxWait - sinceInvoke) : waitTime;
+  };
+
+  const shouldInvoke = (time: number) => {
+    if (lastCallTime === undefined) return true;
+    const sinceCall = time - lastCallTime;
+    const sinceInvoke = time - lastInvokeTime;
+    return sinceCall >= wait || sinceCall < 0 || (maxing && sinceInvoke >= maxWait);
+  };
+
+  const trailingEdge = (time: number): Promise<R> | undefined => {
+    timeoutId = undefined;
+    if (trailing && lastArgs) {
+      return invoke(time);
+    }
+    // Calls dropped by a leading-only limiter share the last result
+    lastArgs = undefined;
+    settle();
+    return lastResult;
+  };
+
+  const timerExpired = () => {
+    const time = clock.now();
+    if (shouldInvoke(time)) {
+      trailingEdge(time);
+    } else {
+      timeoutId = clock.setTimeout(timerExpired, remainingWait(time));
+    }
+  };
+
+  const leadingEdge = (time: number) => {
+    lastInvokeTime = time;
+    timeoutId = clock.setTimeout(timerExpired, wait);
+    if (leading) invoke(time);
+  };
+
+  const limited = ((...args: Parameters<T>): Promise<R> => {
+    const time = clock.now();
+    const isInvoking = shouldInvoke(time);
+    const result = quiet(
+      new Promise<R>((resolve, reject) => waiters.push({ resolve, reject }))
+    );
+
+    lastArgs = args;
+    lastCallTime = time;
+
+    if (isInvoking) {
+      if (timeoutId === undefined) {
+        leadingEdge(time);
+        return result;
+      }
+      if (maxing) {
+        // Still inside a burst but maxWait has elapsed: invoke now
+        clock.clearTimeout(timeoutId);
+        timeoutId = clock.setTimeout(timerExpired, wait);
+        invoke(time);
+        return result;
+      }
+    }
+    if (timeoutId === undefined) {
+      timeoutId = clock.setTimeout(timerExpired, wait);
+    }
+    return result;
+  }) as RateLimitedFunction<T>;
 
-  return (...args: Parameters<T>) => {
-    const now = Date.now();
+  limited.cancel = () => {
+    if (timeoutId !== undefined) clock.clearTimeout(timeoutId);
+    timeoutId = undefined;
+    lastArgs = undefined;
+    lastCallTime = undefined;
+    lastInvokeTime = 0;
 
-    if (now - lastCall >= limit) {
-      lastCall = now;
-      fn(...args);
-    } else if (!timeoutId) {
-      timeoutId = setTimeout(() => {
-        lastCall = Date.now();
-        timeoutId = null;
-        fn(...args);
-      }, limit - (now - lastCall));
+    const cancelled = waiters;
+    waiters = [];
+    for (const { reject } of cancelled) {
+      reject(abortError('Rate-limited call was cancelled.'));
     }
   };
+
+  limited.flush = () => {
+    if (timeoutId === undefined) return lastResult;
+    clock.clearTimeout(timeoutId);
+    return trailingEdge(clock.now());
+  };
+
+  limited.pending = () => timeoutId !== undefined;
+
+  return limited;
+}
+
+// =============================================================================
+// THROTTLE: Limit execution to once per time period
+// =============================================================================
+
+// Fires on the leading edge only; calls inside the window are dropped
+export function throttle<T extends (...args: any[]) => any>(
+  fn: T,
+  limit: number,
+  { clock }: ClockOptions = {}
+): RateLimitedFunction<T> {
+  return rateLimit(fn, limit, { leading: true, trailing: false, maxWait: limit, clock });
+}
+
+// Leading edge throttle (fires immediately, then once more with the latest args)
+export function throttleLeading<T extends (...args: any[]) => any>(
+  fn: T,
+  limit: number,
+  { clock }: ClockOptions = {}
+): RateLimitedFunction<T> {
+  return rateLimit(fn, limit, { leading: true, trailing: true, maxWait: limit, clock });
 }
 
 // =============================================================================
@@ -56,83 +244,550 @@ export function throttleLeading<T extends (...args: any[]) => any>(
 
 export function debounce<T extends (...args: any[]) => any>(
   fn: T,
-  delay: number
-): (...args: Parameters<T>) => void {
-  let timeoutId: ReturnType<typeof setTimeout>;
-
-  return (...args: Parameters<T>) => {
-    clearTimeout(timeoutId);
-    timeoutId = setTimeout(() => fn(...args), delay);
-  };
+  delay: number,
+  { clock }: ClockOptions = {}
+): RateLimitedFunction<T> {
+  return rateLimit(fn, delay, { leading: false, trailing: true, clock });
 }
 
-// Debounce with immediate first call
+// Debounce with immediate first call (the trailing call only fires if the
+// burst had more than one call)
 export function debounceImmediate<T extends (...args: any[]) => any>(
   fn: T,
-  delay: number
-): (...args: Parameters<T>) => void {
-  let timeoutId: ReturnType<typeof setTimeout> | null = null;
-  let isFirstCall = true;
+  delay: number,
+  { clock }: ClockOptions = {}
+): RateLimitedFunction<T> {
+  return rateLimit(fn, delay, { leading: true, trailing: true, clock });
+}
 
-  return (...args: Parameters<T>) => {
-    if (isFirstCall) {
-      isFirstCall = false;
-      fn(...args);
-    }
+// =============================================================================
+// SEQUENCING: Execute async operations in order
+// =============================================================================
+
+// Queued operations receive a signal that fires if the caller aborts
+export type AbortableOperation<T> = (signal: AbortSignal) => T | Promise<T>;
+
+export interface EnqueueOptions {
+  signal?: AbortSignal;
+}
 
-    if (timeoutId) {
-      clearTimeout(timeoutId);
+interface AbortableTask<T> {
+  // What the caller sees: settles with the operation, or rejects on abort
+  promise: Promise<T>;
+  signal: AbortSignal;
+  // Start the operation (skipped if the task was aborted while queued)
+  run: () => Promise<void>;
+  // Settles once the operation has, or at once if it never started; a slot
+  // or lane is only free again after this
+  done: Promise<void>;
+  abort: (reason?: any) => void;
+}
+
+// Wraps an operation in its own controller that follows the caller's signal.
+// An abort rejects the caller's promise right away, whether the operation is
+// still queued or already running; the operation sees it through its signal,
+// just like fetch() does. A running operation may take a while to stop, so
+// whatever it occupies waits for `done` rather than the caller's promise.
+function createAbortableTask<T>(
+  operation: AbortableOperation<T>,
+  signal?: AbortSignal
+): AbortableTask<T> {
+  const controller = new AbortController();
+  let resolve!: (value: T) => void;
+  let reject!: (error: any) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  let started = false;
+  let finish!: () => void;
+  const done = new Promise<void>((res) => (finish = res));
+
+  const forward = () => controller.abort(signal!.reason);
+  const unlink = () => signal?.removeEventListener('abort', forward);
+
+  controller.signal.addEventListener(
+    'abort',
+    () => {
+      reject(controller.signal.reason ?? abortError());
+      if (!started) finish();
+    },
+    { once: true }
+  );
+  if (signal?.aborted) {
+    forward();
+  } else {
+    signal?.addEventListener('abort', forward, { once: true });
+  }
+  promise.then(unlink, unlink);
+
+  const run = () => {
+    if (!controller.signal.aborted && !started) {
+      started = true;
+      new Promise<T>((res) => res(operation(controller.signal)))
+        .then(resolve, reject)
+        .then(finish);
     }
+    return done;
+  };
 
-    timeoutId = setTimeout(() => {
-      isFirstCall = true;
-      fn(...args);
-    }, delay);
+  return {
+    promise,
+    signal: controller.signal,
+    run,
+    done,
+    abort: (reason) => controller.abort(reason),
   };
 }
 
-// =============================================================================
-// SEQUENCING: Execute async operations in order
-// =============================================================================
+export interface SequencerOptions extends EnqueueOptions {
+  // Operations with different keys run in parallel; each key stays in order
+  key?: unknown;
+}
+
+export interface Sequencer<T> {
+  // Each operation runs exactly once and settles only its own caller
+  (operation: AbortableOperation<T>, options?: SequencerOptions): Promise<T>;
+  // Operations queued or running, across all keys
+  readonly size: number;
+  // Resolves once every queued operation has settled
+  idle: () => Promise<void>;
+  // Reject everything still waiting with an AbortError; running work finishes
+  clear: () => void;
+}
+
+const DEFAULT_KEY = Symbol('default');
 
-export function createSequencer<T>() {
-  let pending: Promise<T> = Promise.resolve() as Promise<T>;
+export function createSequencer<T>(): Sequencer<T> {
+  // One lane per key; the head of each lane is the running operation
+  const lanes = new Map<unknown, AbortableTask<T>[]>();
+  let idleWaiters: (() => void)[] = [];
 
-  return (operation: () => Promise<T>): Promise<T> => {
-    pending = pending.then(operation).catch(() => operation());
-    return pending;
+  const drain = async (key: unknown, lane: AbortableTask<T>[]) => {
+    while (lane.length > 0) {
+      // A failure settles its own caller and the lane moves on; an aborted
+      // operation keeps the lane until it has actually stopped
+      await lane[0].run();
+      lane.shift();
+    }
+    lanes.delete(key);
+
+    if (lanes.size === 0) {
+      const waiters = idleWaiters;
+      idleWaiters = [];
+      waiters.forEach((resolve) => resolve());
+    }
   };
+
+  const sequencer = ((operation: AbortableOperation<T>, options: SequencerOptions = {}) => {
+    const task = createAbortableTask(operation, options.signal);
+    if (task.signal.aborted) return task.promise;
+
+    const key = options.key ?? DEFAULT_KEY;
+    let lane = lanes.get(key);
+    const isNewLane = !lane;
+    if (!lane) {
+      lane = [];
+      lanes.set(key, lane);
+    }
+    lane.push(task);
+
+    // Drop the task from its lane if it's aborted before its turn
+    const queued = lane;
+    task.signal.addEventListener(
+      'abort',
+      () => {
+        const index = queued.indexOf(task);
+        if (index > 0) queued.splice(index, 1);
+      },
+      { once: true }
+    );
+
+    if (isNewLane) drain(key, lane);
+    return task.promise;
+  }) as Sequencer<T>;
+
+  Object.defineProperty(sequencer, 'size', {
+    get: () => {
+      let size = 0;
+      lanes.forEach((lane) => (size += lane.length));
+      return size;
+    },
+  });
+
+  sequencer.idle = () =>
+    lanes.size === 0 ? Promise.resolve() : new Promise((resolve) => idleWaiters.push(resolve));
+
+  sequencer.clear = () => {
+    lanes.forEach((lane) => {
+      for (const task of lane.slice(1)) {
+        task.abort(abortError('Sequencer was cleared.'));
+      }
+    });
+  };
+
+  return sequencer;
+}
+
+export interface ConcurrencyLimiterOptions extends ClockOptions {
+  // Slots kept free for 'immediate' and 'high' work: anything less urgent
+  // only starts while more than this many are free (default: 0)
+  reserved?: number;
+}
+
+export interface LimiterCallOptions extends EnqueueOptions {
+  // Queued work starts in priority order (default: 'normal')
+  priority?: Priority;
+  // Within a priority, groups take turns so one busy caller can't starve the
+  // others; ungrouped calls share a group
+  group?: unknown;
+  // Give up if still queued after this many ms, rejecting with a TimeoutError
+  timeout?: number;
+}
+
+export interface LimiterStats {
+  queued: number;
+  running: number;
+  // Mean time in ms that started operations spent queued
+  averageWait: number;
+}
+
+export interface ConcurrencyLimiter {
+  <T>(operation: AbortableOperation<T>, options?: LimiterCallOptions): Promise<T>;
+  // Applies right away: raising it starts queued work, lowering it lets
+  // running work finish
+  setLimit: (limit: number) => void;
+  stats: () => LimiterStats;
+}
+
+interface QueuedTask {
+  task: AbortableTask<any>;
+  queuedAt: number;
+  timerId?: TimerId;
+}
+
+// Same error shape AbortSignal.timeout() aborts with
+export function timeoutError(message = 'The operation timed out.'): DOMException {
+  return new DOMException(message, 'TimeoutError');
 }
 
 // Queue with concurrency limit
-export function createConcurrencyLimiter(limit: number) {
+export function createConcurrencyLimiter(
+  limit: number,
+  options: ConcurrencyLimiterOptions = {}
+): ConcurrencyLimiter {
+  const { reserved = 0, clock = systemClock } = options;
   let running = 0;
-  const queue: (() => void)[] = [];
+  let started = 0;
+  let totalWait = 0;
+  // Per priority, a queue per group; Map order is the round-robin order
+  const queues = new Map<Priority, Map<unknown, QueuedTask[]>>(
+    PRIORITY_ORDER.map((priority) => [priority, new Map()])
+  );
+
+  const dequeue = (): QueuedTask | undefined => {
+    for (const [priority, groups] of queues) {
+      const [group, queue] = groups.entries().next().value ?? [];
+      if (!queue) continue;
+      const urgent = priority === 'immediate' || priority === 'high';
+      if (!urgent && limit - running <= reserved) return undefined;
+
+      // Serve the group at the front, then send it to the back of the line
+      const next = queue.shift()!;
+      groups.delete(group);
+      if (queue.length > 0) groups.set(group, queue);
+      return next;
+    }
+    return undefined;
+  };
 
   const runNext = () => {
-    if (running < limit && queue.length > 0) {
+    while (running < limit) {
+      const next = dequeue();
+      if (!next) return;
+      clock.clearTimeout(next.timerId);
       running++;
-      const next = queue.shift()!;
-      next();
+      started++;
+      totalWait += clock.now() - next.queuedAt;
+      // An aborted task keeps its slot until its operation has stopped
+      next.task.run().then(release);
     }
   };
 
-  return <T>(operation: () => Promise<T>): Promise<T> => {
-    return new Promise((resolve, reject) => {
-      queue.push(async () => {
-        try {
-          const result = await operation();
-          resolve(result);
-        } catch (error) {
-          reject(error);
-        } finally {
-          running--;
-          runNext();
-        }
-      });
-      runNext();
+  const release = () => {
+    running--;
+    runNext();
+  };
+
+  const limiter = (<T>(operation: AbortableOperation<T>, callOptions: LimiterCallOptions = {}) => {
+    const { signal, priority = 'normal', group, timeout } = callOptions;
+    const task = createAbortableTask(operation, signal);
+    if (task.signal.aborted) return task.promise;
+
+    const groups = queues.get(priority)!;
+    const queue = groups.get(group) ?? [];
+    const entry: QueuedTask = { task, queuedAt: clock.now() };
+    queue.push(entry);
+    groups.set(group, queue);
+
+    if (timeout !== undefined) {
+      entry.timerId = clock.setTimeout(
+        () => task.abort(timeoutError('Timed out waiting in the queue.')),
+        timeout
+      );
+    }
+
+    // Drop the task from the queue if it's aborted or times out before its turn
+    task.signal.addEventListener(
+      'abort',
+      () => {
+        const index = queue.indexOf(entry);
+        if (index === -1) return;
+        clock.clearTimeout(entry.timerId);
+        queue.splice(index, 1);
+        if (queue.length === 0 && groups.get(group) === queue) groups.delete(group);
+      },
+      { once: true }
+    );
+    runNext();
+    return task.promise;
+  }) as ConcurrencyLimiter;
+
+  limiter.setLimit = (next) => {
+    limit = next;
+    runNext();
+  };
+
+  limiter.stats = () => {
+    let queued = 0;
+    queues.forEach((groups) => groups.forEach((queue) => (queued += queue.length)));
+    return { queued, running, averageWait: started === 0 ? 0 : totalWait / started };
+  };
+
+  return limiter;
+}
+
+// =============================================================================
+// RATE LIMITER: Cap operations per unit time
+// =============================================================================
+
+export type RateLimiterStrategy = 'token-bucket' | 'sliding-window';
+
+export interface RateLimiterOptions extends ClockOptions {
+  // Tokens per `interval` (default interval: 1s)
+  limit: number;
+  interval?: number;
+  // token-bucket (default): up to `burst` tokens at once, refilled evenly over
+  // the interval. sliding-window: at most `limit` tokens in any `interval`,
+  // tracked as a log of when they were taken.
+  strategy?: RateLimiterStrategy;
+  // Bucket size for token-bucket (default: limit)
+  burst?: number;
+  // What a call over the limit does: wait its turn (default), or reject right
+  // away with a RateLimitError saying how long to wait
+  overflow?: 'queue' | 'reject';
+  // Also cap operations in flight; tokens are only taken once a slot is free,
+  // so starts never outpace the rate (default: no cap)
+  concurrency?: number;
+}
+
+export interface RateLimiterCallOptions extends EnqueueOptions {
+  // Each key draws from its own bucket, e.g. one per API host or user
+  key?: unknown;
+  // Tokens the operation costs (default: 1)
+  weight?: number;
+}
+
+// Like CircuitOpenError, `retryAfter` is picked up by retry()'s default policy
+export class RateLimitError extends Error {
+  constructor(public retryAfter: number) {
+    super(`Rate limit exceeded: retry in ${retryAfter}ms`);
+    this.name = 'RateLimitError';
+  }
+}
+
+export interface RateLimiter {
+  <T>(operation: AbortableOperation<T>, options?: RateLimiterCallOptions): Promise<T>;
+  // Take tokens without running anything; queues or rejects like a call
+  acquire: (options?: RateLimiterCallOptions) => Promise<void>;
+  // Calls waiting for tokens, across all keys
+  readonly queued: number;
+}
+
+interface Bucket {
+  // Takes `weight` tokens and returns 0, or returns how long until it could
+  take: (weight: number, now: number) => number;
+  // How long until the bucket is back to where it started
+  settlesIn: (now: number) => number;
+}
+
+function tokenBucket(capacity: number, refillPerMs: number, createdAt: number): Bucket {
+  let tokens = capacity;
+  let updatedAt = createdAt;
+
+  const refill = (now: number) => {
+    tokens = Math.min(capacity, tokens + (now - updatedAt) * refillPerMs);
+    updatedAt = now;
+  };
+
+  return {
+    take: (weight, now) => {
+      refill(now);
+      if (tokens < weight) return (weight - tokens) / refillPerMs;
+      tokens -= weight;
+      return 0;
+    },
+    settlesIn: (now) => {
+      refill(now);
+      return (capacity - tokens) / refillPerMs;
+    },
+  };
+}
+
+function slidingWindow(limit: number, interval: number): Bucket {
+  const log: { at: number; weight: number }[] = [];
+  let used = 0;
+
+  const expire = (now: number) => {
+    while (log.length > 0 && log[0].at <= now - interval) used -= log.shift()!.weight;
+  };
+
+  return {
+    take: (weight, now) => {
+      expire(now);
+      if (used + weight <= limit) {
+        log.push({ at: now, weight });
+        used += weight;
+        return 0;
+      }
+      // Wait for just enough of the oldest entries to leave the window
+      let freed = 0;
+      for (const entry of log) {
+        freed += entry.weight;
+        if (used - freed + weight <= limit) return entry.at + interval - now;
+      }
+      return interval;
+    },
+    settlesIn: (now) => {
+      expire(now);
+      return log.length > 0 ? log[log.length - 1].at + interval - now : 0;
+    },
+  };
+}
+
+interface RateLimiterLane {
+  bucket: Bucket;
+  waiters: { weight: number; grant: () => void }[];
+  timerId?: TimerId;
+}
+
+export function createRateLimiter(options: RateLimiterOptions): RateLimiter {
+  const {
+    limit,
+    interval = 1000,
+    strategy = 'token-bucket',
+    burst = limit,
+    overflow = 'queue',
+    concurrency = Infinity,
+    clock = systemClock,
+  } = options;
+  const capacity = strategy === 'token-bucket' ? burst : limit;
+  const lanes = new Map<unknown, RateLimiterLane>();
+
+  const laneFor = (key: unknown): RateLimiterLane => {
+    let lane = lanes.get(key);
+    if (!lane) {
+      const bucket =
+        strategy === 'token-bucket'
+          ? tokenBucket(burst, limit / interval, clock.now())
+          : slidingWindow(limit, interval);
+      lane = { bucket, waiters: [] };
+      lanes.set(key, lane);
+    }
+    return lane;
+  };
+
+  // Grant waiters in order while tokens last, then sleep until the head fits.
+  // An idle key is forgotten once its bucket has settled.
+  const pump = (key: unknown, lane: RateLimiterLane) => {
+    clock.clearTimeout(lane.timerId);
+    while (lane.waiters.length > 0) {
+      const wait = lane.bucket.take(lane.waiters[0].weight, clock.now());
+      if (wait > 0) {
+        lane.timerId = clock.setTimeout(() => pump(key, lane), Math.max(1, Math.ceil(wait)));
+        return;
+      }
+      lane.waiters.shift()!.grant();
+    }
+    lane.timerId = clock.setTimeout(
+      () => lanes.delete(key),
+      Math.ceil(lane.bucket.settlesIn(clock.now()))
+    );
+  };
+
+  const acquire = (callOptions: RateLimiterCallOptions = {}): Promise<void> => {
+    const { key = DEFAULT_KEY, weight = 1, signal } = callOptions;
+    if (weight > capacity) {
+      return Promise.reject(new RangeError(`Weight ${weight} exceeds the limit of ${capacity}`));
+    }
+    if (signal?.aborted) return Promise.reject(signal.reason ?? abortError());
+
+    const lane = laneFor(key);
+
+    if (overflow === 'reject') {
+      const wait = lane.bucket.take(weight, clock.now());
+      pump(key, lane);
+      return wait === 0 ? Promise.resolve() : Promise.reject(new RateLimitError(Math.ceil(wait)));
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const waiter = {
+        weight,
+        grant: () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        },
+      };
+      // A heavy waiter that gives up may let lighter ones behind it through
+      const onAbort = () => {
+        lane.waiters.splice(lane.waiters.indexOf(waiter), 1);
+        reject(signal!.reason ?? abortError());
+        pump(key, lane);
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      lane.waiters.push(waiter);
+      pump(key, lane);
     });
   };
+
+  const start = <T>(operation: AbortableOperation<T>, callOptions: RateLimiterCallOptions) => {
+    const task = createAbortableTask(operation, callOptions.signal);
+    acquire({ ...callOptions, signal: task.signal }).then(task.run, task.abort);
+    return task;
+  };
+
+  const slots = concurrency < Infinity ? createConcurrencyLimiter(concurrency) : null;
+
+  // Under a concurrency cap, the slot is held until the operation has stopped
+  const limiter = (<T>(operation: AbortableOperation<T>, callOptions = {}) =>
+    slots
+      ? slots((signal) => {
+          const task = start(operation, { ...callOptions, signal });
+          return task.done.then(() => task.promise);
+        }, callOptions)
+      : start(operation, callOptions).promise) as RateLimiter;
+
+  limiter.acquire = acquire;
+
+  Object.defineProperty(limiter, 'queued', {
+    get: () => {
+      let queued = 0;
+      lanes.forEach((lane) => (queued += lane.waiters.length));
+      return queued;
+    },
+  });
+
+  return limiter;
 }
 
 // =============================================================================
@@ -160,12 +815,20 @@ export function makeCancelable<T>(promise: Promise<T>): CancelablePromise<T> {
   return wrappedPromise;
 }
 
-// Using AbortController (modern approach)
+// Using AbortController (modern approach). A signal passed in `options`
+// (e.g. from useLatestAsync) also aborts the request.
 export function fetchWithCancel(
   url: string,
   options: RequestInit = {}
 ): { promise: Promise<Response>; abort: () => void } {
   const controller = new AbortController();
+  const { signal } = options;
+
+  if (signal?.aborted) {
+    controller.abort(signal.reason);
+  } else {
+    signal?.addEventListener('abort', () => controller.abort(signal.reason), { once: true });
+  }
 
   const promise = fetch(url, {
     ...options,
@@ -179,37 +842,344 @@ export function fetchWithCancel(
 }
 
 // =============================================================================
-// EVENT LOOP UTILITIES: Yield to browser
+// RETRY: Exponential backoff with jitter
 // =============================================================================
 
-// Yield to browser between chunks of work
-export async function yieldToMain(): Promise<void> {
-  return new Promise((resolve) => {
-    // scheduler.yield() is the modern API, setTimeout fallback
-    if ('scheduler' in globalThis && 'yield' in (globalThis as any).scheduler) {
-      (globalThis as any).scheduler.yield().then(resolve);
-    } else {
-      setTimeout(resolve, 0);
+// Abortable sleep; rejects with the signal's reason if aborted early
+export function sleep(ms: number, signal?: AbortSignal, clock: Clock = systemClock): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason ?? abortError());
+      return;
     }
+    const onAbort = () => {
+      clock.clearTimeout(timeoutId);
+      reject(signal!.reason ?? abortError());
+    };
+    const timeoutId = clock.setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
   });
 }
 
-// Process array in chunks, yielding between each
+export type Jitter = 'none' | 'full' | 'equal';
+
+export interface RetryPolicy extends ClockOptions {
+  // Total tries, including the first one (default: 3)
+  maxAttempts?: number;
+  // Give up once this many ms have passed since the first attempt
+  maxElapsed?: number;
+  // Delay before the first retry, doubled (by `factor`) after each one
+  baseDelay?: number;
+  maxDelay?: number;
+  factor?: number;
+  // 'full' picks from [0, delay], 'equal' from [delay/2, delay] (default: 'full')
+  jitter?: Jitter;
+  // Return false to fail fast, e.g. on a 4xx that won't fix itself
+  shouldRetry?: (error: any, attempt: number) => boolean;
+  // Server-requested delay in ms (e.g. from a Retry-After header); wins over backoff
+  retryAfter?: (error: any) => number | undefined;
+  // Called before each back-off sleep so the UI can show it
+  onRetry?: (error: any, attempt: number, delay: number) => void;
+  signal?: AbortSignal;
+}
+
+// Parses a Retry-After header value (seconds or an HTTP date) into ms
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+type BackoffOptions = Required<Pick<RetryPolicy, 'baseDelay' | 'maxDelay' | 'factor' | 'jitter'>>;
+
+function backoffDelay(attempt: number, policy: BackoffOptions) {
+  const exponential = Math.min(
+    policy.maxDelay,
+    policy.baseDelay * Math.pow(policy.factor, attempt - 1)
+  );
+  switch (policy.jitter) {
+    case 'full':
+      return Math.random() * exponential;
+    case 'equal':
+      return exponential / 2 + Math.random() * (exponential / 2);
+    default:
+      return exponential;
+  }
+}
+
+export async function retry<T>(
+  operation: (signal: AbortSignal, attempt: number) => Promise<T>,
+  policy: RetryPolicy = {}
+): Promise<T> {
+  const {
+    maxAttempts = 3,
+    maxElapsed = Infinity,
+    baseDelay = 100,
+    maxDelay = 10000,
+    factor = 2,
+    jitter = 'full',
+    shouldRetry = () => true,
+    retryAfter = (error: any) =>
+      typeof error?.retryAfter === 'number' ? error.retryAfter : undefined,
+    onRetry,
+    clock = systemClock,
+  } = policy;
+  const signal = policy.signal ?? new AbortController().signal;
+  const start = clock.now();
+
+  for (let attempt = 1; ; attempt++) {
+    if (signal.aborted) throw signal.reason ?? abortError();
+
+    try {
+      return await operation(signal, attempt);
+    } catch (error) {
+      // An abort is never worth retrying
+      if (signal.aborted) throw signal.reason ?? error;
+      if (attempt >= maxAttempts || !shouldRetry(error, attempt)) throw error;
+
+      const wait =
+        retryAfter(error) ?? backoffDelay(attempt, { baseDelay, maxDelay, factor, jitter });
+      if (clock.now() - start + wait > maxElapsed) throw error;
+
+      onRetry?.(error, attempt, wait);
+      await sleep(wait, signal, clock);
+    }
+  }
+}
+
+// =============================================================================
+// CIRCUIT BREAKER: Stop calling a source that keeps failing
+// =============================================================================
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions extends ClockOptions {
+  // Consecutive failures that trip the breaker (default: 5)
+  failureThreshold?: number;
+  // Failure rate (0-1) over the last `windowSize` calls that trips it
+  failureRateThreshold?: number;
+  windowSize?: number;
+  // Don't judge the failure rate on fewer calls than this (default: 10)
+  minimumRequests?: number;
+  // How long to stay open before letting probes through (default: 10s)
+  cooldown?: number;
+  // Concurrent trial calls allowed while half-open (default: 1)
+  halfOpenMaxProbes?: number;
+  // Which errors count against the source; aborts don't by default
+  isFailure?: (error: any) => boolean;
+}
+
+// Thrown without calling the source. `retryAfter` is picked up by retry()'s
+// default policy, so retrying an open circuit waits out the cooldown.
+export class CircuitOpenError extends Error {
+  constructor(public retryAfter?: number) {
+    super('Circuit is open: source unavailable');
+    this.name = 'CircuitOpenError';
+  }
+}
+
+export interface CircuitBreaker<A extends any[], R> {
+  (...args: A): Promise<R>;
+  readonly state: CircuitState;
+  // Returns an unsubscribe function (fits useSyncExternalStore)
+  onStateChange: (listener: (state: CircuitState, previous: CircuitState) => void) => () => void;
+  // Force the breaker closed and forget past failures
+  reset: () => void;
+}
+
+export function createCircuitBreaker<A extends any[], R>(
+  operation: (...args: A) => Promise<R>,
+  options: CircuitBreakerOptions = {}
+): CircuitBreaker<A, R> {
+  const {
+    failureThreshold = 5,
+    failureRateThreshold = 1,
+    windowSize = 20,
+    minimumRequests = 10,
+    cooldown = 10000,
+    halfOpenMaxProbes = 1,
+    isFailure = (error: any) => error?.name !== 'AbortError',
+    clock = systemClock,
+  } = options;
+
+  let state: CircuitState = 'closed';
+  let consecutiveFailures = 0;
+  let outcomes: boolean[] = [];
+  let openedAt = 0;
+  let probes = 0;
+  let cooldownId: TimerId | undefined;
+  const listeners = new Set<(state: CircuitState, previous: CircuitState) => void>();
+
+  const transition = (next: CircuitState) => {
+    if (next === state) return;
+    const previous = state;
+    state = next;
+    listeners.forEach((listener) => listener(next, previous));
+  };
+
+  const open = () => {
+    openedAt = clock.now();
+    probes = 0;
+    clock.clearTimeout(cooldownId);
+    cooldownId = clock.setTimeout(() => transition('half-open'), cooldown);
+    transition('open');
+  };
+
+  const close = () => {
+    clock.clearTimeout(cooldownId);
+    consecutiveFailures = 0;
+    outcomes = [];
+    probes = 0;
+    transition('closed');
+  };
+
+  const record = (ok: boolean, isProbe: boolean) => {
+    if (isProbe) {
+      probes--;
+      if (state !== 'half-open') return;
+      if (ok) {
+        close();
+      } else {
+        open();
+      }
+      return;
+    }
+    if (state !== 'closed') return;
+
+    consecutiveFailures = ok ? 0 : consecutiveFailures + 1;
+    outcomes.push(ok);
+    if (outcomes.length > windowSize) outcomes.shift();
+
+    const failures = outcomes.filter((outcome) => !outcome).length;
+    const tripped =
+      consecutiveFailures >= failureThreshold ||
+      (outcomes.length >= minimumRequests && failures / outcomes.length >= failureRateThreshold);
+    if (tripped) open();
+  };
+
+  const breaker = (async (...args: A): Promise<R> => {
+    if (state === 'open') {
+      throw new CircuitOpenError(Math.max(0, openedAt + cooldown - clock.now()));
+    }
+    const isProbe = state === 'half-open';
+    if (isProbe) {
+      if (probes >= halfOpenMaxProbes) throw new CircuitOpenError();
+      probes++;
+    }
+
+    try {
+      const result = await operation(...args);
+      record(true, isProbe);
+      return result;
+    } catch (error) {
+      if (isFailure(error)) {
+        record(false, isProbe);
+      } else if (isProbe) {
+        // Inconclusive probe: free the slot without changing state
+        probes--;
+      }
+      throw error;
+    }
+  }) as CircuitBreaker<A, R>;
+
+  Object.defineProperty(breaker, 'state', { get: () => state });
+
+  breaker.onStateChange = (listener) => {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+  };
+
+  breaker.reset = close;
+
+  return breaker;
+}
+
+// =============================================================================
+// EVENT LOOP UTILITIES: Yield to browser
+// =============================================================================
+
+// Yield to browser between chunks of work
+export async function yieldToMain(clock: Clock = systemClock): Promise<void> {
+  return clock.yield();
+}
+
+export interface ChunkProgress {
+  processed: number;
+  // Known for arrays and other sized collections, not for async iterables
+  total?: number;
+}
+
+export interface ChunkOptions extends ClockOptions {
+  // Work time per slice before yielding to the browser (default: 5ms)
+  budget?: number;
+  // Fixed number of items per slice instead of sizing slices by `budget`
+  chunkSize?: number;
+  // Called after every slice
+  onProgress?: (progress: ChunkProgress) => void;
+  signal?: AbortSignal;
+}
+
+const MAX_CHUNK_SIZE = 10000;
+
+// Process items in slices, yielding between each. Unless `chunkSize` is given,
+// each slice is sized from the measured per-item cost so it fits the budget.
 export async function processInChunks<T, R>(
-  items: T[],
-  processor: (item: T) => R,
-  chunkSize: number = 100
+  items: Iterable<T> | AsyncIterable<T>,
+  processor: (item: T, index: number) => R | Promise<R>,
+  options: ChunkOptions = {}
 ): Promise<R[]> {
+  const { budget = 5, chunkSize, onProgress, signal, clock = systemClock } = options;
+  const total = Array.isArray(items) ? items.length : (items as { size?: number }).size;
+  const isAsync = typeof (items as AsyncIterable<T>)[Symbol.asyncIterator] === 'function';
+  const iterator = isAsync
+    ? (items as AsyncIterable<T>)[Symbol.asyncIterator]()
+    : (items as Iterable<T>)[Symbol.iterator]();
+
   const results: R[] = [];
+  let size = chunkSize ?? 16;
+  let averageCost: number | undefined;
 
-  for (let i = 0; i < items.length; i += chunkSize) {
-    const chunk = items.slice(i, i + chunkSize);
-    results.push(...chunk.map(processor));
+  while (true) {
+    if (signal?.aborted) throw signal.reason ?? abortError();
 
-    // Yield to browser between chunks
-    if (i + chunkSize < items.length) {
-      await yieldToMain();
+    const start = clock.now();
+    let count = 0;
+    let done = false;
+
+    while (count < size) {
+      // Only pay for an await when the source or processor is actually async
+      const next = isAsync ? await iterator.next() : (iterator.next() as IteratorResult<T>);
+      if (next.done) {
+        done = true;
+        break;
+      }
+      const result = processor(next.value, results.length);
+      results.push(result instanceof Promise ? await result : (result as R));
+      count++;
+    }
+
+    if (chunkSize === undefined && count > 0) {
+      const elapsed = clock.now() - start;
+      if (elapsed <= 0) {
+        // Too fast to measure at this clock's resolution: grow the slice
+        size = Math.min(size * 2, MAX_CHUNK_SIZE);
+      } else {
+        const cost = elapsed / count;
+        averageCost = averageCost === undefined ? cost : (averageCost + cost) / 2;
+        size = Math.max(1, Math.min(MAX_CHUNK_SIZE, Math.floor(budget / averageCost)));
+      }
     }
+
+    onProgress?.({ processed: results.length, total });
+    if (done) break;
+
+    // Yield to browser between chunks
+    await yieldToMain(clock);
   }
 
   return results;
@@ -219,30 +1189,244 @@ export async function processInChunks<T, R>(
 // PRIORITY QUEUE: Similar to React's lane-based scheduling
 // =============================================================================
 
-type Priority = 'immediate' | 'high' | 'normal' | 'low' | 'idle';
+export type Priority = 'immediate' | 'high' | 'normal' | 'low' | 'idle';
+
+const PRIORITY_ORDER: Priority[] = ['immediate', 'high', 'normal', 'low', 'idle'];
 
-interface Task<T> {
+// Same spirit as React's lane timeouts: once queued work has waited this long
+// it is promoted ahead of everything that hasn't expired yet
+const DEFAULT_EXPIRATION: Record<Priority, number> = {
+  immediate: 0,
+  high: 250,
+  normal: 5000,
+  low: 10000,
+  idle: Infinity,
+};
+
+export interface SchedulerOptions extends ClockOptions {
+  // Per-priority expiration in ms (see DEFAULT_EXPIRATION)
+  expiration?: Partial<Record<Priority, number>>;
+  // Tasks allowed in flight at once across every lane (default: 1, so tasks
+  // run one at a time in priority order)
+  maxConcurrency?: number;
+  // Tasks of one priority allowed in flight at once, within maxConcurrency
+  // (default: 1 each)
+  concurrency?: Partial<Record<Priority, number>>;
+  // Work time before yielding to the browser; 0 yields after every task
+  frameBudget?: number;
+}
+
+// A task that returns a generator is run in slices: each `yield` is a point
+// where the scheduler may yield to the browser or preempt it for more urgent
+// work, resuming it later from the same place.
+export type SchedulerTask<T> = (signal: AbortSignal) => T | Promise<T> | Generator<unknown, T>;
+
+interface Lane {
+  queue: Task<any>[];
+  running: number;
+  limit: number;
+  expiration: number;
+}
+
+export type TaskStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+// Like CancelablePromise: await it as usual, or steer the task through it
+export interface ScheduledTask<T> extends Promise<T> {
+  readonly status: TaskStatus;
+  readonly priority: Priority;
+  // Drop the task if queued, abort its signal if running; rejects with an AbortError
+  cancel: () => void;
+  // Move a queued task to another lane, e.g. when a hidden tab becomes visible
+  setPriority: (priority: Priority) => void;
+}
+
+interface Task<T> extends AbortableTask<T> {
   priority: Priority;
-  execute: () => T | Promise<T>;
-  resolve: (value: T) => void;
-  reject: (error: any) => void;
+  status: TaskStatus;
+  expiresAt: number;
+  handle: ScheduledTask<T>;
+  // Set once a generator task has started; kept across preemption
+  iterator?: Generator<unknown, T>;
+  settle?: { resolve: (value: T) => void; reject: (error: any) => void };
 }
 
-export class PriorityScheduler {
-  private queues: Map<Priority, Task<any>[]> = new Map([
-    ['immediate', []],
-    ['high', []],
-    ['normal', []],
-    ['low', []],
-    ['idle', []],
-  ]);
+function isGenerator(value: any): value is Generator {
+  return (
+    value != null &&
+    typeof value.next === 'function' &&
+    typeof value[Symbol.iterator] === 'function'
+  );
+}
 
+export class PriorityScheduler {
+  private lanes = new Map<Priority, Lane>();
+  private active = new Set<Task<any>>();
+  private idleWaiters: (() => void)[] = [];
+  private frameBudget: number;
+  private maxConcurrency: number;
+  private clock: Clock;
+  private sliceStart = 0;
   private isProcessing = false;
-  private priorityOrder: Priority[] = ['immediate', 'high', 'normal', 'low', 'idle'];
+  private isFlushScheduled = false;
+  private isPaused = false;
+
+  constructor(options: SchedulerOptions = {}) {
+    for (const priority of PRIORITY_ORDER) {
+      this.lanes.set(priority, {
+        queue: [],
+        running: 0,
+        limit: options.concurrency?.[priority] ?? 1,
+        expiration: options.expiration?.[priority] ?? DEFAULT_EXPIRATION[priority],
+      });
+    }
+    this.frameBudget = options.frameBudget ?? 5;
+    this.maxConcurrency = options.maxConcurrency ?? 1;
+    this.clock = options.clock ?? systemClock;
+  }
+
+  schedule<T>(
+    priority: Priority,
+    execute: SchedulerTask<T>,
+    options: EnqueueOptions = {}
+  ): ScheduledTask<T> {
+    const task = {
+      priority,
+      status: 'queued',
+      expiresAt: this.clock.now() + this.lanes.get(priority)!.expiration,
+    } as Task<T>;
+
+    Object.assign(
+      task,
+      createAbortableTask<T>((signal) => {
+        const result = execute(signal);
+        if (!isGenerator(result)) return result;
+        // Sliced task: the work loop steps it and settles it from here
+        task.iterator = result;
+        return new Promise<T>((resolve, reject) => (task.settle = { resolve, reject }));
+      }, options.signal)
+    );
+    task.handle = this.createHandle(task);
+
+    task.promise.then(
+      () => (task.status = 'done'),
+      () => {
+        if (task.status !== 'cancelled') task.status = 'failed';
+      }
+    );
+    task.signal.addEventListener(
+      'abort',
+      () => {
+        task.status = 'cancelled';
+        this.dequeue(task);
+        try {
+          task.iterator?.return(undefined as T);
+        } catch {
+          // Aborted from inside its own step; the work loop stops it instead
+        }
+        this.notifyIfIdle();
+      },
+      { once: true }
+    );
+    if (task.signal.aborted) {
+      // Aborted before the listener above was attached
+      task.status = 'cancelled';
+      return task.handle;
+    }
+
+    this.lanes.get(priority)!.queue.push(task);
+    this.requestFlush();
+    return task.handle;
+  }
+
+  // Queued tasks per priority
+  get depths(): Record<Priority, number> {
+    const depths = {} as Record<Priority, number>;
+    this.lanes.forEach((lane, priority) => (depths[priority] = lane.queue.length));
+    return depths;
+  }
+
+  // Tasks currently holding a lane slot
+  get running(): ScheduledTask<any>[] {
+    return Array.from(this.active, (task) => task.handle);
+  }
+
+  get paused(): boolean {
+    return this.isPaused;
+  }
 
-  schedule<T>(priority: Priority, execute: () => T | Promise<T>): Promise<T> {
-    return new Promise((resolve, reject) => {
-      this.queues.get(priority)!.push({ priority, execute, resolve, reject });
+  // Resolves once nothing is queued or running
+  onIdle(): Promise<void> {
+    if (this.isIdle()) return Promise.resolve();
+    return new Promise((resolve) => this.idleWaiters.push(resolve));
+  }
+
+  // Stop starting new work; running tasks finish, sliced ones stop at their next yield
+  pause() {
+    this.isPaused = true;
+  }
+
+  resume() {
+    this.isPaused = false;
+    this.requestFlush();
+  }
+
+  private createHandle<T>(task: Task<T>): ScheduledTask<T> {
+    const handle = task.promise as ScheduledTask<T>;
+    Object.defineProperties(handle, {
+      status: { get: () => task.status },
+      priority: { get: () => task.priority },
+    });
+    handle.cancel = () => {
+      if (task.status === 'queued' || task.status === 'running') {
+        task.abort(abortError('Task was cancelled.'));
+      }
+    };
+    handle.setPriority = (priority) => this.reprioritize(task, priority);
+    return handle;
+  }
+
+  private reprioritize(task: Task<any>, priority: Priority) {
+    if (priority === task.priority || task.status !== 'queued') {
+      // A running task keeps its slot; the new priority only affects preemption
+      if (task.status === 'running') task.priority = priority;
+      return;
+    }
+    const lane = this.lanes.get(priority)!;
+    this.dequeue(task);
+    task.priority = priority;
+    // Never make a promoted task wait longer than it already would have
+    task.expiresAt = Math.min(task.expiresAt, this.clock.now() + lane.expiration);
+    lane.queue.push(task);
+    this.requestFlush();
+  }
+
+  private dequeue(task: Task<any>) {
+    const queue = this.lanes.get(task.priority)!.queue;
+    const index = queue.indexOf(task);
+    if (index !== -1) queue.splice(index, 1);
+  }
+
+  private isIdle() {
+    if (this.active.size > 0) return false;
+    for (const lane of this.lanes.values()) {
+      if (lane.queue.length > 0) return false;
+    }
+    return true;
+  }
+
+  private notifyIfIdle() {
+    if (!this.isIdle()) return;
+    const waiters = this.idleWaiters;
+    this.idleWaiters = [];
+    waiters.forEach((resolve) => resolve());
+  }
+
+  // Batch everything scheduled in the same tick before picking what runs first
+  private requestFlush() {
+    if (this.isFlushScheduled || this.isProcessing) return;
+    this.isFlushScheduled = true;
+    queueMicrotask(() => {
+      this.isFlushScheduled = false;
       this.processNext();
     });
   }
@@ -250,33 +1434,109 @@ export class PriorityScheduler {
   private async processNext(): Promise<void> {
     if (this.isProcessing) return;
     this.isProcessing = true;
+    this.sliceStart = this.clock.now();
 
     while (true) {
       const task = this.getNextTask();
       if (!task) break;
 
+      const lane = this.lanes.get(task.priority)!;
+      lane.queue.shift();
+      lane.running++;
+      this.active.add(task);
+      task.status = 'running';
+
+      const release = () => {
+        lane.running--;
+        this.active.delete(task);
+      };
+
+      if (!task.iterator) {
+        const result = task.run();
+        if (!task.iterator) {
+          // Plain task: it holds its lane's slot until it settles
+          result.then(() => {
+            release();
+            this.notifyIfIdle();
+            this.requestFlush();
+          });
+          await this.yieldIfOverBudget();
+          continue;
+        }
+      }
+
+      // Sliced task: step it on the main thread until it's done or preempted
+      await this.runSlices(task);
+      release();
+      await this.yieldIfOverBudget();
+    }
+
+    this.isProcessing = false;
+    this.notifyIfIdle();
+  }
+
+  private async runSlices(task: Task<any>): Promise<void> {
+    const iterator = task.iterator!;
+
+    while (!task.signal.aborted) {
+      let step: IteratorResult<unknown, any>;
       try {
-        const result = await task.execute();
-        task.resolve(result);
+        step = iterator.next();
       } catch (error) {
-        task.reject(error);
+        task.settle!.reject(error);
+        return;
+      }
+      if (step.done) {
+        task.settle!.resolve(step.value);
+        return;
       }
 
-      // Yield between tasks to allow higher priority work
-      await yieldToMain();
+      if (this.clock.now() - this.sliceStart >= this.frameBudget) {
+        await this.yieldToBrowser();
+        // Preempting frees this task's slot, so look past the global limit
+        const next = this.peekNextTask();
+        if (this.isPaused || (next && this.rank(next) < this.rank(task))) {
+          // Preempted: resume from this yield point once the urgent work is done
+          task.status = 'queued';
+          this.lanes.get(task.priority)!.queue.unshift(task);
+          return;
+        }
+      }
     }
+  }
 
-    this.isProcessing = false;
+  private async yieldIfOverBudget() {
+    if (this.clock.now() - this.sliceStart >= this.frameBudget) {
+      await this.yieldToBrowser();
+    }
+  }
+
+  private async yieldToBrowser() {
+    await this.clock.yield();
+    this.sliceStart = this.clock.now();
+  }
+
+  // Lower runs first: expired work, then by priority
+  private rank(task: Task<any>): number {
+    const expired = task.expiresAt <= this.clock.now();
+    return (expired ? 0 : PRIORITY_ORDER.length) + PRIORITY_ORDER.indexOf(task.priority);
   }
 
   private getNextTask(): Task<any> | undefined {
-    for (const priority of this.priorityOrder) {
-      const queue = this.queues.get(priority)!;
-      if (queue.length > 0) {
-        return queue.shift();
-      }
+    if (this.isPaused || this.active.size >= this.maxConcurrency) return undefined;
+    return this.peekNextTask();
+  }
+
+  // The task that would run next if a slot were free
+  private peekNextTask(): Task<any> | undefined {
+    let best: Task<any> | undefined;
+    for (const priority of PRIORITY_ORDER) {
+      const lane = this.lanes.get(priority)!;
+      const head = lane.queue[0];
+      if (!head || lane.running >= lane.limit) continue;
+      if (!best || this.rank(head) < this.rank(best)) best = head;
     }
-    return undefined;
+    return best;
   }
 }
 
@@ -284,58 +1544,97 @@ export class PriorityScheduler {
 // DEMO: Comparing approaches
 // =============================================================================
 
+// Runs on a VirtualClock, so every timeline is exact and the demo doubles as a
+// check: it throws if anything happened at a different time or in another order
 export async function demo() {
+  const { VirtualClock } = await import('./virtual-clock');
   console.log('=== Concurrency Utilities Demo ===\n');
 
   // Throttle demo
-  console.log('1. Throttle (max once per 100ms):');
-  const throttled = throttle((x: number) => console.log(`  Throttled: ${x}`), 100);
+  console.log('1. Throttle (max once per 100ms), called every 30ms:');
+  let clock = new VirtualClock();
+  const throttled = throttle(clock.trace('throttled'), 100, { clock });
   for (let i = 0; i < 5; i++) {
     throttled(i);
-    await new Promise((r) => setTimeout(r, 30));
+    await clock.advance(30);
   }
-
-  await new Promise((r) => setTimeout(r, 200));
+  await clock.runAll();
+  expectTimeline(clock, [
+    [0, 'throttled', 0],
+    [120, 'throttled', 4],
+  ]);
 
   // Debounce demo
-  console.log('\n2. Debounce (wait 100ms after last call):');
-  let debounceCount = 0;
-  const debounced = debounce(() => console.log(`  Debounced after ${debounceCount} calls`), 100);
+  console.log('\n2. Debounce (wait 100ms after last call), called every 30ms:');
+  clock = new VirtualClock();
+  const debounced = debounce(clock.trace('debounced'), 100, { clock });
   for (let i = 0; i < 5; i++) {
-    debounceCount++;
-    debounced();
-    await new Promise((r) => setTimeout(r, 30));
+    debounced(i);
+    await clock.advance(30);
   }
-
-  await new Promise((r) => setTimeout(r, 200));
+  await clock.runAll();
+  expectTimeline(clock, [[220, 'debounced', 4]]);
 
   // Priority scheduler demo
-  console.log('\n3. Priority Scheduler:');
-  const scheduler = new PriorityScheduler();
-
-  scheduler.schedule('low', () => console.log('  Low priority task'));
-  scheduler.schedule('immediate', () => console.log('  Immediate priority task'));
-  scheduler.schedule('normal', () => console.log('  Normal priority task'));
-  scheduler.schedule('high', () => console.log('  High priority task'));
-
-  await new Promise((r) => setTimeout(r, 100));
+  console.log('\n3. Priority Scheduler (queued low, immediate, normal, high):');
+  clock = new VirtualClock();
+  const scheduler = new PriorityScheduler({ clock });
+  for (const priority of ['low', 'immediate', 'normal', 'high'] as Priority[]) {
+    scheduler.schedule(priority, () => clock.record(priority));
+  }
+  await clock.runAll();
+  await scheduler.onIdle();
+  expectTimeline(clock, [
+    [0, 'immediate'],
+    [0, 'high'],
+    [0, 'normal'],
+    [0, 'low'],
+  ]);
 
   // Chunked processing demo
-  console.log('\n4. Chunked Processing:');
+  console.log('\n4. Chunked Processing (10 items, 3 per chunk):');
+  clock = new VirtualClock();
   const items = Array.from({ length: 10 }, (_, i) => i);
-  const results = await processInChunks(
-    items,
-    (x) => {
-      console.log(`  Processing item ${x}`);
-      return x * 2;
-    },
-    3
+  const processing = processInChunks(items, clock.trace('item', (x: number) => x * 2), {
+    chunkSize: 3,
+    clock,
+    onProgress: ({ processed }) => clock.record('progress', processed),
+  });
+  // Nothing past the first chunk runs until the clock lets the yield through
+  await clock.flushMicrotasks();
+  expect('items before the first yield', clock.timeline.length, 4);
+  await clock.runAll();
+  const results = await processing;
+  expectTimeline(
+    clock,
+    [0, 1, 2, 3, 4, 5, 6, 7, 8, 9].flatMap((x) => [
+      [0, 'item', x, x],
+      ...(x % 3 === 2 || x === 9 ? [[0, 'progress', x + 1]] : []),
+    ])
   );
+  expect('results', results.join(', '), '0, 2, 4, 6, 8, 10, 12, 14, 16, 18');
   console.log(`  Results: [${results.join(', ')}]`);
 
   console.log('\n=== Demo Complete ===');
 }
 
+function expect(what: string, actual: unknown, expected: unknown) {
+  if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    throw new Error(
+      `${what}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`
+    );
+  }
+}
+
+// Print a clock's timeline as [time, label, ...args] and check it
+function expectTimeline(clock: VirtualClock, expected: unknown[][]) {
+  const actual = clock.timeline.map(({ time, label, args }) => [time, label, ...args]);
+  for (const [time, label, ...args] of actual) {
+    console.log(`  ${String(time).padStart(4)}ms  ${label}(${args.join(', ')})`);
+  }
+  expect('timeline', actual, expected);
+}
+
 // Run demo if this is the main module
 if (typeof require !== 'undefined' && require.main === module) {
   demo();
@@ -0,0 +1,63 @@
+/**
+ * Filter Worker for React Paris Meetup #011
+ *
+ * Handlers for worker-pool.ts. Loaded as a dedicated worker it answers calls
+ * from a pool; imported anywhere else it is just a module, so the same code
+ * can run on the main thread for comparison.
+ */
+
+import { compileQuery, QuerySchema } from './query-language';
+import { exposeWorker, isWorkerScope, transfer } from './worker-pool';
+
+// An item's text fields by name; the query's getters can't be sent to a
+// worker, so items travel as plain records instead
+export type FilterRecord = Record<string, string>;
+
+export interface FilterRequest {
+  // Every record has these; the query can name any of them
+  fields: string[];
+  // One per item, in list order
+  records: FilterRecord[];
+  // In the query language, compiled here just as on the main thread
+  query: string;
+}
+
+// Simulated per-item cost, matching expensiveMatch() in the demo
+function simulateWork() {
+  const start = performance.now();
+  while (performance.now() - start < 0.005) {
+    // Block to simulate expensive computation
+  }
+}
+
+export const filterHandlers = {
+  // Indices of matching items in the query's sort order; the buffer moves
+  // back instead of being copied. A query that doesn't parse throws its
+  // QuerySyntaxError's message back to the caller.
+  filterIndices({ fields, records, query }: FilterRequest, signal: AbortSignal) {
+    const schema: QuerySchema<FilterRecord> = { fields: {} };
+    for (const name of fields) {
+      schema.fields[name] = { type: 'text', get: (record) => record[name] };
+    }
+    const compiled = compileQuery(query, schema);
+
+    const matches: number[] = [];
+    for (let i = 0; i < records.length; i++) {
+      if (signal.aborted) break;
+      simulateWork();
+      if (compiled.predicate(records[i])) matches.push(i);
+    }
+    const { compare } = compiled;
+    if (compare) matches.sort((a, b) => compare(records[a], records[b]));
+
+    const indices = Int32Array.from(matches);
+    return transfer(indices, [indices.buffer]);
+  },
+};
+
+export type FilterHandlers = typeof filterHandlers;
+
+// Running as a dedicated worker: answer calls from the pool
+if (isWorkerScope()) {
+  exposeWorker(filterHandlers);
+}
@@ -0,0 +1,224 @@
+/**
+ * Paginated Loader for React Paris Meetup #011
+ *
+ * The state machine behind an infinite list. Each direction (newer items
+ * above, older items below) is idle, loading, error or exhausted, and never
+ * has more than one page request in flight. Scroll handlers and observers can
+ * call load() as often as they fire: a call while the next page is loading
+ * joins that request, so no page is fetched twice or skipped.
+ *
+ * Loaded pages form a sliding window. Past `maxPages`, the page at the far end
+ * is dropped, and its neighbour's cursor fetches it again when the user
+ * scrolls back that way.
+ *
+ * Framework-free; usePaginatedLoader() in concurrency-hooks.ts renders it.
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type Direction = 'newer' | 'older';
+
+export interface Page<T, C> {
+  items: T[];
+  // Where the neighbouring pages start; null when there's nothing that way
+  newer: C | null;
+  older: C | null;
+}
+
+// Where pages come from. A null cursor asks for the first page (the newest
+// items); every page hands back the cursors of its neighbours.
+export interface PageSource<T, C> {
+  fetchPage: (cursor: C | null, signal: AbortSignal) => Promise<Page<T, C>>;
+}
+
+export type LoaderStatus = 'idle' | 'loading' | 'error' | 'exhausted';
+
+export interface PaginatedLoaderState<T, C> {
+  pages: Page<T, C>[];
+  // Every item in the window, in order
+  items: T[];
+  status: Record<Direction, LoaderStatus>;
+  // Why each direction is in 'error'
+  errors: Record<Direction, unknown>;
+}
+
+export interface PaginatedLoaderOptions {
+  // Pages kept loaded at once (default: no limit)
+  maxPages?: number;
+}
+
+export interface PaginatedLoader<T, C> {
+  getState: () => PaginatedLoaderState<T, C>;
+  // Returns an unsubscribe function (fits useSyncExternalStore)
+  subscribe: (listener: () => void) => () => void;
+  // Fetch the next page that way if the direction is idle; joins the request
+  // already in flight, if any
+  load: (direction?: Direction) => Promise<void>;
+  // Try again after an error, or look past the end again (e.g. for items
+  // posted since the newest page was loaded)
+  reload: (direction?: Direction) => Promise<void>;
+  // Abort requests in flight; directions go back to what they were
+  cancel: () => void;
+  // Cancel and drop every page, e.g. when the list shows something else
+  reset: () => void;
+}
+
+interface Request {
+  promise: Promise<void>;
+  controller: AbortController;
+  // Status to go back to if the request is cancelled
+  previous: LoaderStatus;
+}
+
+// =============================================================================
+// LOADER
+// =============================================================================
+
+function initialState<T, C>(): PaginatedLoaderState<T, C> {
+  return {
+    pages: [],
+    items: [],
+    // Starting from the newest items, there's nothing newer until more are posted
+    status: { newer: 'exhausted', older: 'idle' },
+    errors: { newer: null, older: null },
+  };
+}
+
+export function createPaginatedLoader<T, C>(
+  source: PageSource<T, C>,
+  options: PaginatedLoaderOptions = {}
+): PaginatedLoader<T, C> {
+  const { maxPages = Infinity } = options;
+
+  let state = initialState<T, C>();
+  const listeners = new Set<() => void>();
+  const requests = new Map<Direction, Request>();
+
+  const update = (next: Partial<PaginatedLoaderState<T, C>>) => {
+    const pages = next.pages ?? state.pages;
+    state = {
+      ...state,
+      ...next,
+      items: pages === state.pages ? state.items : pages.flatMap((page) => page.items),
+    };
+    listeners.forEach((listener) => listener());
+  };
+
+  const setStatus = (direction: Direction, status: LoaderStatus, error: unknown = null) =>
+    update({
+      status: { ...state.status, [direction]: status },
+      errors: { ...state.errors, [direction]: error },
+    });
+
+  // The page at the end being extended
+  const edgeOf = (direction: Direction) =>
+    direction === 'older' ? state.pages[state.pages.length - 1] : state.pages[0];
+
+  // Add a page at one end, dropping the far end past `maxPages`. A dropped
+  // page can be fetched again, so that direction isn't exhausted any more.
+  const addPage = (direction: Direction, page: Page<T, C>) => {
+    const status = { ...state.status };
+    const reopen = (other: Direction) => {
+      if (status[other] === 'exhausted') status[other] = 'idle';
+    };
+
+    if (direction === 'newer' && page.items.length === 0) {
+      // Nothing posted since the top page
+      status.newer = 'exhausted';
+      update({ status });
+      return;
+    }
+
+    let pages: Page<T, C>[];
+    if (direction === 'older') {
+      pages = [...state.pages, page];
+      status.older = page.older === null ? 'exhausted' : 'idle';
+      if (pages.length > maxPages) {
+        pages = pages.slice(1);
+        reopen('newer');
+      }
+    } else {
+      pages = [page, ...state.pages];
+      status.newer = page.newer === null ? 'exhausted' : 'idle';
+      if (pages.length > maxPages) {
+        pages = pages.slice(0, -1);
+        reopen('older');
+      }
+    }
+    update({ pages, status });
+  };
+
+  const start = (direction: Direction): Promise<void> => {
+    const edge = edgeOf(direction);
+    const cursor = edge ? edge[direction] : null;
+    if (edge && cursor === null) {
+      setStatus(direction, 'exhausted');
+      return Promise.resolve();
+    }
+
+    const controller = new AbortController();
+    const previous = state.status[direction];
+    setStatus(direction, 'loading');
+
+    const promise = source.fetchPage(cursor, controller.signal).then(
+      (page) => {
+        if (controller.signal.aborted) return;
+        requests.delete(direction);
+        // The window moved at this end meanwhile (e.g. the page we were
+        // extending got evicted); the page no longer fits, so drop it
+        if (edgeOf(direction) !== edge) {
+          setStatus(direction, 'idle');
+        } else {
+          addPage(direction, page);
+        }
+      },
+      (error) => {
+        if (controller.signal.aborted) return;
+        requests.delete(direction);
+        setStatus(direction, 'error', error);
+      }
+    );
+
+    requests.set(direction, { promise, controller, previous });
+    return promise;
+  };
+
+  const cancel = () => {
+    const status = { ...state.status };
+    requests.forEach(({ controller, previous }, direction) => {
+      controller.abort();
+      status[direction] = previous;
+    });
+    requests.clear();
+    update({ status });
+  };
+
+  return {
+    getState: () => state,
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    load: (direction = 'older') => {
+      const request = requests.get(direction);
+      if (request) return request.promise;
+      if (state.status[direction] !== 'idle') return Promise.resolve();
+      return start(direction);
+    },
+
+    reload: (direction = 'older') => requests.get(direction)?.promise ?? start(direction),
+
+    cancel,
+
+    reset: () => {
+      cancel();
+      update(initialState());
+    },
+  };
+}
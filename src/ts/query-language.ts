@@ -0,0 +1,300 @@
+/**
+ * Query Language for React Paris Meetup #011
+ *
+ * A small search syntax for filtering lists:
+ *
+ *   category:Music after:2026-01-01 "exact phrase" -excluded sort:-timestamp
+ *
+ *   word            a searchable field contains it (case-insensitive)
+ *   "a phrase"      same, with the words together and in order
+ *   field:value     that field contains the value (quote it for spaces)
+ *   after:DATE      the schema's date field is later (before: for earlier)
+ *   sort:field      ascending; sort:-field for descending, repeat for ties
+ *   -term           anything but (not for sort:)
+ *
+ * parseQuery() turns the text into terms, and compileQuery() checks them
+ * against the fields a list has and builds a predicate, a comparator and the
+ * match ranges to highlight. Both throw a QuerySyntaxError that says where the
+ * query went wrong, so an input can point at it.
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+// A slice of the query text or of a field's text, end exclusive
+export interface TextSpan {
+  start: number;
+  end: number;
+}
+
+export type QueryTerm =
+  | { type: 'text'; text: string; phrase: boolean; negated: boolean; span: TextSpan }
+  | {
+      type: 'field';
+      field: string;
+      text: string;
+      negated: boolean;
+      span: TextSpan;
+      fieldSpan: TextSpan;
+    }
+  | { type: 'range'; bound: 'after' | 'before'; time: number; negated: boolean; span: TextSpan };
+
+export interface SortKey {
+  field: string;
+  descending: boolean;
+  span: TextSpan;
+}
+
+export interface ParsedQuery {
+  source: string;
+  // All of them must match
+  terms: QueryTerm[];
+  // Most significant first
+  sort: SortKey[];
+}
+
+export type QueryField<T> =
+  | {
+      type: 'text';
+      get: (item: T) => string;
+      // Whether bare words and phrases look here (default: true)
+      searchable?: boolean;
+    }
+  | { type: 'date'; get: (item: T) => number };
+
+export interface QuerySchema<T> {
+  // Names are matched case-insensitively
+  fields: Record<string, QueryField<T>>;
+  // The date field after: and before: compare against
+  dateField?: string;
+}
+
+// Match ranges per text field, sorted and non-overlapping
+export type Highlights = Record<string, TextSpan[]>;
+
+export interface CompiledQuery<T> {
+  source: string;
+  predicate: (item: T) => boolean;
+  // Null when the query doesn't sort; keep the list's own order
+  compare: ((a: T, b: T) => number) | null;
+  highlight: (item: T) => Highlights;
+}
+
+export class QuerySyntaxError extends Error {
+  constructor(
+    message: string,
+    public span: TextSpan
+  ) {
+    super(message);
+    this.name = 'QuerySyntaxError';
+  }
+}
+
+function fail(message: string, start: number, end: number = start + 1): never {
+  throw new QuerySyntaxError(message, { start, end });
+}
+
+// =============================================================================
+// PARSER
+// =============================================================================
+
+const isSpace = (char: string) => /\s/.test(char);
+
+// Dates as YYYY-MM-DD (midnight UTC), optionally with an ISO time
+function parseDate(text: string): number {
+  return /^\d{4}-\d{2}-\d{2}(T[\d:.]+(Z|[+-]\d{2}:\d{2})?)?$/.test(text) ? Date.parse(text) : NaN;
+}
+
+export function parseQuery(source: string): ParsedQuery {
+  const terms: QueryTerm[] = [];
+  const sort: SortKey[] = [];
+
+  // A quoted phrase opening at `at`, and where it ends
+  const readPhrase = (at: number) => {
+    const close = source.indexOf('"', at + 1);
+    if (close === -1) fail('Unterminated quote', at, source.length);
+    return { text: source.slice(at + 1, close), end: close + 1 };
+  };
+
+  const readWord = (at: number) => {
+    let end = at;
+    while (end < source.length && !isSpace(source[end])) end++;
+    return { text: source.slice(at, end), end };
+  };
+
+  let i = 0;
+  for (;;) {
+    while (i < source.length && isSpace(source[i])) i++;
+    if (i === source.length) break;
+
+    const start = i;
+    const negated = source[i] === '-';
+    if (negated) i++;
+    if (i === source.length || isSpace(source[i])) fail('Expected a term after "-"', start);
+
+    if (source[i] === '"') {
+      const { text, end } = readPhrase(i);
+      if (!text.trim()) fail('Empty phrase', i, end);
+      terms.push({ type: 'text', text, phrase: true, negated, span: { start, end } });
+      i = end;
+      continue;
+    }
+
+    const prefix = /^([A-Za-z_]\w*):/.exec(source.slice(i));
+    if (!prefix) {
+      const { text, end } = readWord(i);
+      terms.push({ type: 'text', text, phrase: false, negated, span: { start, end } });
+      i = end;
+      continue;
+    }
+
+    const name = prefix[1].toLowerCase();
+    const fieldSpan = { start: i, end: i + prefix[1].length };
+    const valueAt = i + prefix[0].length;
+    const value = source[valueAt] === '"' ? readPhrase(valueAt) : readWord(valueAt);
+    if (!value.text) fail(`Expected a value after "${prefix[0]}"`, valueAt);
+    const span = { start, end: value.end };
+    i = value.end;
+
+    if (name === 'sort') {
+      if (negated) fail('sort: can\'t be negated', start);
+      const descending = value.text.startsWith('-');
+      const field = descending ? value.text.slice(1) : value.text;
+      if (!field) fail('Expected a field to sort by', valueAt + 1);
+      sort.push({ field, descending, span });
+    } else if (name === 'after' || name === 'before') {
+      const time = parseDate(value.text);
+      if (Number.isNaN(time)) {
+        fail(`Invalid date "${value.text}" (expected YYYY-MM-DD)`, valueAt, value.end);
+      }
+      terms.push({ type: 'range', bound: name, time, negated, span });
+    } else {
+      terms.push({ type: 'field', field: prefix[1], text: value.text, negated, span, fieldSpan });
+    }
+  }
+
+  return { source, terms, sort };
+}
+
+// =============================================================================
+// COMPILER
+// =============================================================================
+
+type NamedField<T> = QueryField<T> & { name: string };
+type TextField<T> = Extract<QueryField<T>, { type: 'text' }> & { name: string };
+
+export function compileQuery<T>(
+  query: string | ParsedQuery,
+  schema: QuerySchema<T>
+): CompiledQuery<T> {
+  const parsed = typeof query === 'string' ? parseQuery(query) : query;
+  const fields = new Map<string, NamedField<T>>(
+    Object.entries(schema.fields).map(([name, field]) => [name.toLowerCase(), { ...field, name }])
+  );
+
+  const lookup = (name: string, span: TextSpan) =>
+    fields.get(name.toLowerCase()) ?? fail(`Unknown field "${name}"`, span.start, span.end);
+
+  const searched = Array.from(fields.values()).filter(
+    (field): field is TextField<T> => field.type === 'text' && field.searchable !== false
+  );
+
+  const tests: ((item: T) => boolean)[] = [];
+  // Lowercased text each field should highlight
+  const needles: { field: TextField<T>; needle: string }[] = [];
+
+  for (const term of parsed.terms) {
+    let test: (item: T) => boolean;
+
+    if (term.type === 'range') {
+      if (!schema.dateField) fail(`This list has no dates for ${term.bound}:`, term.span.start);
+      const field = fields.get(schema.dateField.toLowerCase());
+      if (field?.type !== 'date') throw new Error(`dateField "${schema.dateField}" isn't a date`);
+      const { bound, time } = term;
+      test = (item) => (bound === 'after' ? field.get(item) > time : field.get(item) < time);
+    } else {
+      let targets = searched;
+      if (term.type === 'field') {
+        const field = lookup(term.field, term.fieldSpan);
+        if (field.type !== 'text') {
+          fail(`"${term.field}" is a date; use after: or before:`, term.span.start, term.span.end);
+        }
+        targets = [field];
+      }
+      const needle = term.text.toLowerCase();
+      test = (item) => targets.some((field) => field.get(item).toLowerCase().includes(needle));
+      if (!term.negated) targets.forEach((field) => needles.push({ field, needle }));
+    }
+
+    tests.push(term.negated ? (item) => !test(item) : test);
+  }
+
+  const comparators = parsed.sort.map(({ field: name, descending, span }) => {
+    const field = lookup(name, { start: span.end - name.length, end: span.end });
+    const direction = descending ? -1 : 1;
+    return field.type === 'text'
+      ? (a: T, b: T) => direction * field.get(a).localeCompare(field.get(b))
+      : (a: T, b: T) => direction * (field.get(a) - field.get(b));
+  });
+
+  return {
+    source: parsed.source,
+
+    predicate: (item) => tests.every((test) => test(item)),
+
+    compare:
+      comparators.length === 0
+        ? null
+        : (a, b) => {
+            for (const compare of comparators) {
+              const order = compare(a, b);
+              if (order !== 0) return order;
+            }
+            return 0;
+          },
+
+    highlight: (item) => {
+      const highlights: Highlights = {};
+      for (const { field, needle } of needles) {
+        const text = field.get(item).toLowerCase();
+        for (let at = text.indexOf(needle); at !== -1; at = text.indexOf(needle, at + 1)) {
+          (highlights[field.name] ??= []).push({ start: at, end: at + needle.length });
+        }
+      }
+      for (const name of Object.keys(highlights)) {
+        highlights[name] = mergeSpans(highlights[name]);
+      }
+      return highlights;
+    },
+  };
+}
+
+function mergeSpans(spans: TextSpan[]): TextSpan[] {
+  const merged: TextSpan[] = [];
+  for (const span of [...spans].sort((a, b) => a.start - b.start)) {
+    const last = merged[merged.length - 1];
+    if (last && span.start <= last.end) {
+      last.end = Math.max(last.end, span.end);
+    } else {
+      merged.push({ ...span });
+    }
+  }
+  return merged;
+}
+
+// Cut `text` into runs inside and outside the highlighted spans, for rendering
+export function splitHighlights(
+  text: string,
+  spans: TextSpan[] = []
+): { text: string; match: boolean }[] {
+  const parts: { text: string; match: boolean }[] = [];
+  let at = 0;
+  for (const { start, end } of spans) {
+    if (start > at) parts.push({ text: text.slice(at, start), match: false });
+    parts.push({ text: text.slice(start, end), match: true });
+    at = end;
+  }
+  if (at < text.length) parts.push({ text: text.slice(at), match: false });
+  return parts;
+}
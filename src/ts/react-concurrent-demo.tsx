@@ -7,6 +7,7 @@
 
 import React, {
   useState,
+  useEffect,
   useTransition,
   useDeferredValue,
   Suspense,
@@ -16,6 +17,31 @@ import React, {
   // @ts-ignore - Activity may not be in types yet
   Activity,
 } from 'react';
+import { processInChunks, sleep } from './concurrency';
+import {
+  useCachedPromise,
+  useCompiledQuery,
+  useDebouncedValue,
+  useLatestAsync,
+  useStream,
+  useSubject,
+  useThrottledValue,
+  useWorkerCall,
+} from './concurrency-hooks';
+import { FilterHandlers } from './filter-worker';
+import { compileQuery, CompiledQuery, QuerySchema, QuerySyntaxError } from './query-language';
+import { createResourceCache } from './resource-cache';
+import {
+  concatMap,
+  distinctUntilChanged,
+  exhaustMap,
+  mergeMap,
+  Operator,
+  Project,
+  Stream,
+  switchMap,
+} from './streams';
+import { createWorkerPool } from './worker-pool';
 
 // =============================================================================
 // TYPES
@@ -37,18 +63,37 @@ interface User {
 // SIMULATED DATA & FETCHING
 // =============================================================================
 
-// Simulate expensive filtering
-function expensiveFilter(items: Item[], query: string): Item[] {
-  // Simulate CPU-intensive work
+// Searches are written in the query language, e.g. `category:books -"item 1" sort:-name`
+const itemSchema: QuerySchema<Item> = {
+  fields: {
+    name: { type: 'text', get: (item) => item.name },
+    category: { type: 'text', get: (item) => item.category },
+  },
+};
+
+// Simulate an expensive per-item check (~5µs each, ~50ms for 10,000 items)
+function expensiveMatch(item: Item, query: CompiledQuery<Item>): boolean {
   const start = performance.now();
-  while (performance.now() - start < 50) {
-    // Block for 50ms to simulate expensive computation
+  while (performance.now() - start < 0.005) {
+    // Block to simulate expensive computation
   }
 
-  return items.filter(
-    (item) =>
-      item.name.toLowerCase().includes(query.toLowerCase()) ||
-      item.category.toLowerCase().includes(query.toLowerCase())
+  return query.predicate(item);
+}
+
+// Simulate expensive filtering
+function expensiveFilter(items: Item[], query: CompiledQuery<Item>): Item[] {
+  const matches = items.filter((item) => expensiveMatch(item, query));
+  return query.compare ? matches.sort(query.compare) : matches;
+}
+
+// Shown under an input while its query doesn't parse; results stay as they were
+function QueryErrorMessage({ error }: { error: QuerySyntaxError | null }) {
+  if (!error) return null;
+  return (
+    <p role="alert" style={{ color: '#c62828', margin: '4px 0' }}>
+      {error.message} (at character {error.span.start + 1})
+    </p>
   );
 }
 
@@ -62,50 +107,63 @@ function generateItems(count: number): Item[] {
   }));
 }
 
-// Cache for promises (required for use() hook)
-const promiseCache = new Map<string, Promise<any>>();
-
-function fetchUser(id: number): Promise<User> {
-  const key = `user-${id}`;
-  if (!promiseCache.has(key)) {
-    promiseCache.set(
-      key,
-      new Promise((resolve) => {
-        setTimeout(() => {
-          resolve({
-            id,
-            name: `User ${id}`,
-            email: `user${id}@example.com`,
-          });
-        }, 1000);
-      })
-    );
-  }
-  return promiseCache.get(key)!;
-}
+// Cache for promises (required for use() hook): dedupes in-flight requests,
+// serves stale users while refetching, and forgets failures
+const userCache = createResourceCache({
+  fetcher: (id: number) =>
+    new Promise<User>((resolve) => {
+      setTimeout(() => {
+        resolve({
+          id,
+          name: `User ${id}`,
+          email: `user${id}@example.com`,
+        });
+      }, 1000);
+    }),
+  ttl: 30000,
+  maxEntries: 50,
+});
 
 // =============================================================================
 // DEMO 1: useTransition for non-urgent updates
 // =============================================================================
 
+// Mock search API: network latency that varies per request (so responses
+// can come back out of order), then a chunked filter that reports progress
+async function searchApi(
+  items: Item[],
+  query: CompiledQuery<Item>,
+  signal: AbortSignal,
+  onProgress: (fraction: number) => void
+): Promise<Item[]> {
+  await sleep(100 + Math.random() * 800, signal);
+  const matches = await processInChunks(items, (item) => expensiveMatch(item, query), {
+    signal,
+    onProgress: ({ processed, total }) => onProgress(processed / total!),
+  });
+  const results = items.filter((_, index) => matches[index]);
+  return query.compare ? results.sort(query.compare) : results;
+}
+
 export function TransitionDemo() {
   const [query, setQuery] = useState('');
-  const [results, setResults] = useState<Item[]>([]);
-  const [isPending, startTransition] = useTransition();
+  const [progress, setProgress] = useState(0);
 
   const allItems = useMemo(() => generateItems(10000), []);
+  const { query: compiled, error } = useCompiledQuery(query, itemSchema);
 
-  function handleSearch(e: React.ChangeEvent<HTMLInputElement>) {
-    const value = e.target.value;
+  // NON-URGENT: latest query wins; older results stay up while it loads
+  const search = useLatestAsync(
+    (signal) => searchApi(allItems, compiled, signal, setProgress),
+    [allItems, compiled]
+  );
+  const results = search.data ?? [];
+  const { isPending } = search;
 
+  function handleSearch(e: React.ChangeEvent<HTMLInputElement>) {
     // URGENT: Update input immediately
-    setQuery(value);
-
-    // NON-URGENT: Filter can be deferred
-    startTransition(() => {
-      const filtered = expensiveFilter(allItems, value);
-      setResults(filtered);
-    });
+    setQuery(e.target.value);
+    setProgress(0);
   }
 
   return (
@@ -121,10 +179,16 @@ export function TransitionDemo() {
         style={{ padding: '8px', fontSize: '16px', width: '300px' }}
       />
 
-      {isPending && <span className="spinner"> Filtering...</span>}
+      {isPending && (
+        <span className="spinner"> Filtering... {Math.round(progress * 100)}%</span>
+      )}
+      <QueryErrorMessage error={error} />
 
-      <div style={{ marginTop: '16px', opacity: isPending ? 0.7 : 1 }}>
-        <p>Showing {results.length} results</p>
+      <div style={{ marginTop: '16px', opacity: search.isStale ? 0.7 : 1 }}>
+        <p>
+          Showing {results.length} results
+          {search.isStale && ' (from a previous search)'}
+        </p>
         <ul style={{ maxHeight: '200px', overflow: 'auto' }}>
           {results.slice(0, 20).map((item) => (
             <li key={item.id}>
@@ -138,12 +202,163 @@ export function TransitionDemo() {
   );
 }
 
+// =============================================================================
+// DEMO 1b: Off-thread filtering with a worker pool
+// =============================================================================
+
+// Workers start on first use; filter-worker.ts answers calls when loaded as one
+const filterPool = createWorkerPool<FilterHandlers>(
+  () => new Worker(new URL('./filter-worker.ts', import.meta.url), { type: 'module' })
+);
+
+// The worker compiles the query itself against each item's text fields, so
+// both sides of the demo run the same filter
+const workerFields = Object.keys(itemSchema.fields);
+
+function WorkerFilterList({ items, query }: { items: Item[]; query: string }) {
+  const records = useMemo(() => items.map(({ name, category }) => ({ name, category })), [items]);
+  const payload = useMemo(() => ({ fields: workerFields, records, query }), [records, query]);
+  const { data: indices, isPending } = useWorkerCall(filterPool, 'filterIndices', payload);
+
+  const results = useMemo(
+    () => (indices ? Array.from(indices, (index) => items[index]) : []),
+    [indices, items]
+  );
+
+  return (
+    <div style={{ opacity: isPending ? 0.7 : 1 }}>
+      <p>
+        {results.length} results{isPending && ' (filtering in worker...)'}
+      </p>
+      <ul style={{ maxHeight: '200px', overflow: 'auto' }}>
+        {results.slice(0, 20).map((item) => (
+          <li key={item.id}>
+            {item.name} - {item.category}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export function WorkerFilterDemo() {
+  const [query, setQuery] = useState('');
+  // Both sides get the last query that compiled
+  const { query: compiled, error } = useCompiledQuery(query, itemSchema);
+  const deferredCompiled = useDeferredValue(compiled);
+  const allItems = useMemo(() => generateItems(5000), []);
+
+  return (
+    <div className="demo-section">
+      <h2>Worker Pool Demo</h2>
+      <p>Same filter off the main thread (left) vs. useDeferredValue on it (right)</p>
+
+      <input
+        type="text"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Search 5,000 items..."
+        style={{ padding: '8px', fontSize: '16px', width: '300px' }}
+      />
+      <QueryErrorMessage error={error} />
+
+      <div style={{ display: 'flex', gap: '24px', marginTop: '16px' }}>
+        <div style={{ flex: 1 }}>
+          <h3>Web Worker</h3>
+          <WorkerFilterList items={allItems} query={compiled.source} />
+        </div>
+        <div style={{ flex: 1, opacity: compiled !== deferredCompiled ? 0.5 : 1 }}>
+          <h3>useDeferredValue</h3>
+          <SlowList query={deferredCompiled} />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// =============================================================================
+// DEMO 1c: Stream operators for async inputs
+// =============================================================================
+
+interface SearchResponse {
+  query: string;
+  count: number;
+}
+
+// Mock search API with uneven latency, so responses can arrive out of order.
+// Only queries that compile are sent.
+const searchItems: Project<string, SearchResponse> = async (query, signal) => {
+  await sleep(200 + Math.random() * 600, signal);
+  const matches = expensiveFilter(generateItems(1000), compileQuery(query, itemSchema));
+  return { query, count: matches.length };
+};
+
+const strategies: [string, Operator<string, SearchResponse>][] = [
+  ['switchMap (latest wins)', switchMap(searchItems)],
+  ['concatMap (in order)', concatMap(searchItems)],
+  ['exhaustMap (ignore while busy)', exhaustMap(searchItems)],
+  ['mergeMap ×2 (all, capped)', mergeMap(searchItems, 2)],
+];
+
+interface StrategyResultProps {
+  label: string;
+  source: Stream<string>;
+  operator: Operator<string, SearchResponse>;
+}
+
+function StrategyResult({ label, source, operator }: StrategyResultProps) {
+  const results = useMemo(() => source.pipe(distinctUntilChanged(), operator), [source, operator]);
+  const response = useStream<SearchResponse | null>(results, null);
+
+  return (
+    <tr>
+      <td>{label}</td>
+      <td>{response ? `"${response.query}" → ${response.count} items` : '—'}</td>
+    </tr>
+  );
+}
+
+export function StreamOperatorsDemo() {
+  const [query, setQuery] = useState('');
+  const query$ = useSubject<string>();
+  const { query: compiled, error } = useCompiledQuery(query, itemSchema);
+
+  // A query that doesn't parse isn't sent, so results stay as they were
+  useEffect(() => {
+    query$.next(compiled.source);
+  }, [query$, compiled]);
+
+  return (
+    <div className="demo-section">
+      <h2>Stream Operators Demo</h2>
+      <p>What happens to the previous request when the input changes?</p>
+
+      <input
+        type="text"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Type quickly..."
+        style={{ padding: '8px', fontSize: '16px', width: '300px' }}
+      />
+      <QueryErrorMessage error={error} />
+
+      <table style={{ marginTop: '16px' }}>
+        <tbody>
+          {strategies.map(([label, operator]) => (
+            <StrategyResult key={label} label={label} source={query$} operator={operator} />
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
 // =============================================================================
 // DEMO 2: useDeferredValue for derived values
 // =============================================================================
 
 interface SlowListProps {
-  query: string;
+  query: CompiledQuery<Item>;
 }
 
 function SlowList({ query }: SlowListProps) {
@@ -166,6 +381,11 @@ function SlowList({ query }: SlowListProps) {
 export function DeferredValueDemo() {
   const [query, setQuery] = useState('');
   const deferredQuery = useDeferredValue(query);
+  const { query: compiled, error } = useCompiledQuery(deferredQuery, itemSchema);
+
+  // Timer-based alternatives, shown for comparison
+  const debouncedQuery = useDebouncedValue(query, 300);
+  const throttledQuery = useThrottledValue(query, 300);
 
   // Show stale indicator
   const isStale = query !== deferredQuery;
@@ -183,9 +403,27 @@ export function DeferredValueDemo() {
         style={{ padding: '8px', fontSize: '16px', width: '300px' }}
       />
 
+      <table style={{ marginTop: '8px', fontFamily: 'monospace' }}>
+        <tbody>
+          <tr>
+            <td>useDeferredValue</td>
+            <td>"{deferredQuery}"</td>
+          </tr>
+          <tr>
+            <td>useDebouncedValue (300ms)</td>
+            <td>"{debouncedQuery}"</td>
+          </tr>
+          <tr>
+            <td>useThrottledValue (300ms)</td>
+            <td>"{throttledQuery}"</td>
+          </tr>
+        </tbody>
+      </table>
+
       <div style={{ marginTop: '16px', opacity: isStale ? 0.5 : 1 }}>
         {isStale && <p>Updating...</p>}
-        <SlowList query={deferredQuery} />
+        <QueryErrorMessage error={error} />
+        <SlowList query={compiled} />
       </div>
     </div>
   );
@@ -200,8 +438,9 @@ interface UserProfileProps {
 }
 
 function UserProfile({ userId }: UserProfileProps) {
-  // use() suspends until the promise resolves
-  const user = use(fetchUser(userId));
+  // use() suspends until the promise resolves; a refresh swaps in an
+  // already-resolved promise, so it doesn't suspend again
+  const user = use(useCachedPromise(userCache, userId));
 
   return (
     <div className="user-card">
@@ -230,6 +469,8 @@ export function SuspenseDemo() {
 
       <div>
         <button onClick={() => setUserId((id) => id + 1)}>Load Next User</button>
+        <button onClick={() => userCache.invalidate(userId)}>Refresh</button>
+        <button onClick={() => userCache.prefetch(userId + 1)}>Prefetch Next</button>
         <span style={{ marginLeft: '8px' }}>User ID: {userId}</span>
       </div>
 
@@ -376,6 +617,10 @@ export function App() {
 
       <TransitionDemo />
       <hr />
+      <WorkerFilterDemo />
+      <hr />
+      <StreamOperatorsDemo />
+      <hr />
       <DeferredValueDemo />
       <hr />
       <SuspenseDemo />
@@ -0,0 +1,256 @@
+/**
+ * Resource Cache for React Paris Meetup #011
+ *
+ * A promise cache shaped for React 19's use(): the same key returns the same
+ * promise until its data changes, concurrent reads share one request, and a
+ * background refetch swaps in an already-resolved promise so content that is
+ * on screen doesn't suspend again.
+ */
+
+import { ClockOptions, systemClock } from './concurrency';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface ResourceCacheOptions<K, V> extends ClockOptions {
+  fetcher: (key: K, signal: AbortSignal) => Promise<V>;
+  // How long a value counts as fresh (default: 30s)
+  ttl?: number;
+  // How long past `ttl` a stale value is still served while it refetches
+  // in the background (default: 5min)
+  staleWhileRevalidate?: number;
+  // Least recently used entries are evicted beyond this (default: 100)
+  maxEntries?: number;
+  // How long a rejection stays cached so use() can throw it to an error
+  // boundary before the next read retries (default: 5s)
+  errorTtl?: number;
+  // Turns a key into a cache id (default: JSON with sorted object keys)
+  hash?: (key: K) => string;
+}
+
+export interface ResourceCache<K, V> {
+  // Stable promise for use(); starts a request only if nothing usable is cached
+  read: (key: K) => Promise<V>;
+  // Warm the cache without reading
+  prefetch: (key: K) => void;
+  // Seed or overwrite a value (e.g. after a mutation)
+  set: (key: K, value: V) => void;
+  // Mark one key (or everything) stale; the next read refetches in the background
+  invalidate: (key?: K) => void;
+  // Drop one key (or everything); the next read suspends
+  evict: (key?: K) => void;
+  // Called with the cache id whenever a key's promise is replaced
+  subscribe: (listener: (id: string) => void) => () => void;
+  readonly size: number;
+}
+
+// Promise with the fields React's use() checks before suspending
+type TrackedPromise<V> = Promise<V> & {
+  status?: 'pending' | 'fulfilled' | 'rejected';
+  value?: V;
+  reason?: any;
+};
+
+interface Entry<V> {
+  promise: TrackedPromise<V>;
+  settledAt: number;
+  invalidated: boolean;
+  controller: AbortController;
+  revalidating: boolean;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+export function stableHash(key: unknown): string {
+  return JSON.stringify(key, (_, value) =>
+    value && typeof value === 'object' && !Array.isArray(value)
+      ? Object.fromEntries(Object.entries(value).sort(([a], [b]) => (a < b ? -1 : 1)))
+      : value
+  );
+}
+
+// Already-resolved promise that use() reads synchronously instead of suspending
+function fulfilled<V>(value: V): TrackedPromise<V> {
+  const promise: TrackedPromise<V> = Promise.resolve(value);
+  promise.status = 'fulfilled';
+  promise.value = value;
+  return promise;
+}
+
+function track<V>(promise: Promise<V>): TrackedPromise<V> {
+  const tracked: TrackedPromise<V> = promise;
+  tracked.status = 'pending';
+  tracked.then(
+    (value) => {
+      tracked.status = 'fulfilled';
+      tracked.value = value;
+    },
+    (reason) => {
+      tracked.status = 'rejected';
+      tracked.reason = reason;
+    }
+  );
+  return tracked;
+}
+
+// =============================================================================
+// CACHE
+// =============================================================================
+
+export function createResourceCache<K, V>(
+  options: ResourceCacheOptions<K, V>
+): ResourceCache<K, V> {
+  const {
+    fetcher,
+    ttl = 30000,
+    staleWhileRevalidate = 5 * 60000,
+    maxEntries = 100,
+    errorTtl = 5000,
+    hash = stableHash,
+    clock = systemClock,
+  } = options;
+
+  // Map iteration order doubles as LRU order: oldest first
+  const entries = new Map<string, Entry<V>>();
+  const listeners = new Set<(id: string) => void>();
+
+  const notify = (id: string) => listeners.forEach((listener) => listener(id));
+
+  const touch = (id: string, entry: Entry<V>) => {
+    entries.delete(id);
+    entries.set(id, entry);
+    while (entries.size > maxEntries) {
+      entries.delete(entries.keys().next().value!);
+    }
+  };
+
+  const load = (id: string, key: K): Entry<V> => {
+    const controller = new AbortController();
+    const entry: Entry<V> = {
+      promise: track(fetcher(key, controller.signal)),
+      settledAt: Infinity,
+      invalidated: false,
+      controller,
+      revalidating: false,
+    };
+    entry.promise.then(
+      () => {
+        entry.settledAt = clock.now();
+      },
+      () => {
+        entry.settledAt = clock.now();
+      }
+    );
+    touch(id, entry);
+    return entry;
+  };
+
+  // Refetch in the background; the old value stays readable until this lands
+  const revalidate = (id: string, key: K, entry: Entry<V>) => {
+    if (entry.revalidating) return;
+    entry.revalidating = true;
+
+    fetcher(key, entry.controller.signal).then(
+      (value) => {
+        if (entries.get(id) !== entry) return;
+        entry.promise = fulfilled(value);
+        entry.settledAt = clock.now();
+        entry.invalidated = false;
+        entry.revalidating = false;
+        notify(id);
+      },
+      () => {
+        // Keep serving the stale value; the next read tries again
+        entry.revalidating = false;
+      }
+    );
+  };
+
+  // What a read should do with whatever is cached right now
+  const classify = (entry: Entry<V> | undefined) => {
+    if (!entry) return 'missing';
+    const { status } = entry.promise;
+    if (status === 'pending') return 'fresh';
+
+    const age = clock.now() - entry.settledAt;
+    if (status === 'rejected') return age < errorTtl ? 'fresh' : 'missing';
+    if (age >= ttl + staleWhileRevalidate) return 'missing';
+    if (entry.invalidated || age >= ttl) return 'stale';
+    return 'fresh';
+  };
+
+  const read = (key: K): Promise<V> => {
+    const id = hash(key);
+    const entry = entries.get(id);
+
+    switch (classify(entry)) {
+      case 'fresh':
+        touch(id, entry!);
+        return entry!.promise;
+      case 'stale':
+        touch(id, entry!);
+        revalidate(id, key, entry!);
+        return entry!.promise;
+      default:
+        return load(id, key).promise;
+    }
+  };
+
+  const forEachTarget = (key: K | undefined, fn: (id: string, entry: Entry<V>) => void) => {
+    if (key === undefined) {
+      Array.from(entries).forEach(([id, entry]) => fn(id, entry));
+    } else {
+      const id = hash(key);
+      const entry = entries.get(id);
+      if (entry) fn(id, entry);
+    }
+  };
+
+  return {
+    read,
+
+    prefetch: (key) => {
+      read(key).catch(() => {});
+    },
+
+    set: (key, value) => {
+      const id = hash(key);
+      entries.get(id)?.controller.abort();
+      touch(id, {
+        promise: fulfilled(value),
+        settledAt: clock.now(),
+        invalidated: false,
+        controller: new AbortController(),
+        revalidating: false,
+      });
+      notify(id);
+    },
+
+    invalidate: (key) =>
+      forEachTarget(key, (id, entry) => {
+        entry.invalidated = true;
+        notify(id);
+      }),
+
+    evict: (key) =>
+      forEachTarget(key, (id, entry) => {
+        entry.controller.abort();
+        entries.delete(id);
+        notify(id);
+      }),
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    get size() {
+      return entries.size;
+    },
+  };
+}
@@ -0,0 +1,304 @@
+/**
+ * Search Index for React Paris Meetup #011
+ *
+ * An in-memory inverted index for full-text search over items as they load.
+ * Each word maps to the items containing it, so a search looks up a handful
+ * of postings instead of rescanning every item on every keystroke. Items are
+ * added and removed one at a time as pages come and go; nothing is rebuilt.
+ *
+ *   prefix      the last word matches as a prefix ("reac" finds "react")
+ *   typos       words within that many edits still match, scored lower
+ *   relevance   BM25 over the weighted fields
+ *
+ * addInChunks() indexes a large batch with processInChunks(), yielding between
+ * slices so indexing never holds up input.
+ */
+
+import { ChunkOptions, processInChunks } from './concurrency';
+import { Highlights, TextSpan } from './query-language';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface SearchField<T> {
+  get: (item: T) => string;
+  // How much a match here counts (default: 1)
+  weight?: number;
+}
+
+export interface SearchIndexOptions<T, K> {
+  key: (item: T) => K;
+  fields: Record<string, SearchField<T>>;
+}
+
+export interface SearchOptions {
+  // Let the last word match as a prefix (default: true)
+  prefix?: boolean;
+  // Edits (insert, delete, substitute, swap) a word may be off by; words
+  // shorter than 4 letters always need an exact match (default: 0)
+  typos?: number;
+  limit?: number;
+}
+
+export interface SearchHit<T> {
+  item: T;
+  score: number;
+  // Indexed words that matched, for highlight()
+  terms: string[];
+}
+
+export interface SearchIndex<T, K> {
+  // Adding an item already indexed under its key re-indexes it
+  add: (item: T) => void;
+  addInChunks: (items: Iterable<T>, options?: ChunkOptions) => Promise<void>;
+  remove: (key: K) => boolean;
+  has: (key: K) => boolean;
+  // The item as it was indexed
+  get: (key: K) => T | undefined;
+  keys: () => IterableIterator<K>;
+  clear: () => void;
+  // Items containing every word of `query`, best first
+  search: (query: string, options?: SearchOptions) => SearchHit<T>[];
+  // Where the hit's words appear in each field
+  highlight: (hit: SearchHit<T>) => Highlights;
+  readonly size: number;
+}
+
+export interface Token extends TextSpan {
+  text: string;
+}
+
+interface Doc<T> {
+  item: T;
+  // Weighted occurrences of each word
+  counts: Map<string, number>;
+  length: number;
+}
+
+// =============================================================================
+// TOKENIZER
+// =============================================================================
+
+// Lowercased runs of letters and digits, with where they sit in `text`
+export function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const match of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+    tokens.push({
+      text: match[0].toLowerCase(),
+      start: match.index!,
+      end: match.index! + match[0].length,
+    });
+  }
+  return tokens;
+}
+
+// Optimal string alignment distance, giving up once it's past `max`
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previous2: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let best = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      row[j] = Math.min(previous[j] + 1, row[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        row[j] = Math.min(row[j], previous2[j - 2] + 1);
+      }
+      best = Math.min(best, row[j]);
+    }
+    if (best > max) return max + 1;
+    previous2 = previous;
+    previous = row;
+  }
+  return previous[b.length];
+}
+
+// =============================================================================
+// INDEX
+// =============================================================================
+
+// BM25 tuning: how quickly repeats stop counting, and how much long items
+// are penalised
+const K1 = 1.2;
+const B = 0.75;
+
+// How much a match counts by how it matched
+const PREFIX_MATCH = 0.8;
+const TYPO_MATCH = 0.5;
+
+export function createSearchIndex<T, K>(options: SearchIndexOptions<T, K>): SearchIndex<T, K> {
+  const { key, fields } = options;
+
+  const docs = new Map<K, Doc<T>>();
+  // Word -> keys of the items containing it
+  const postings = new Map<string, Set<K>>();
+  // Every indexed word in order, for prefix lookups; rebuilt when stale
+  let vocabulary: string[] | null = [];
+  let totalLength = 0;
+
+  const remove = (id: K) => {
+    const doc = docs.get(id);
+    if (!doc) return false;
+
+    docs.delete(id);
+    totalLength -= doc.length;
+    for (const term of doc.counts.keys()) {
+      const keys = postings.get(term)!;
+      keys.delete(id);
+      if (keys.size === 0) {
+        postings.delete(term);
+        vocabulary = null;
+      }
+    }
+    return true;
+  };
+
+  const add = (item: T) => {
+    const id = key(item);
+    remove(id);
+
+    const counts = new Map<string, number>();
+    let length = 0;
+    for (const { get, weight = 1 } of Object.values(fields)) {
+      for (const { text } of tokenize(get(item))) {
+        counts.set(text, (counts.get(text) ?? 0) + weight);
+        length += weight;
+      }
+    }
+
+    docs.set(id, { item, counts, length });
+    totalLength += length;
+    for (const term of counts.keys()) {
+      let keys = postings.get(term);
+      if (!keys) {
+        postings.set(term, (keys = new Set()));
+        vocabulary = null;
+      }
+      keys.add(id);
+    }
+  };
+
+  const sortedVocabulary = () => (vocabulary ??= Array.from(postings.keys()).sort());
+
+  // Indexed words `word` stands for, each with how well it matches
+  const expand = (word: string, prefix: boolean, typos: number): Map<string, number> => {
+    const matches = new Map<string, number>();
+    if (postings.has(word)) matches.set(word, 1);
+
+    if (prefix) {
+      const terms = sortedVocabulary();
+      // Binary search for the first word >= `word`; its run shares the prefix
+      let low = 0;
+      let high = terms.length;
+      while (low < high) {
+        const middle = (low + high) >> 1;
+        if (terms[middle] < word) low = middle + 1;
+        else high = middle;
+      }
+      for (let i = low; i < terms.length && terms[i].startsWith(word); i++) {
+        if (!matches.has(terms[i])) matches.set(terms[i], PREFIX_MATCH);
+      }
+    }
+
+    if (typos > 0 && word.length >= 4) {
+      for (const term of postings.keys()) {
+        if (matches.has(term)) continue;
+        const distance = editDistance(word, term, typos);
+        if (distance <= typos) matches.set(term, TYPO_MATCH / distance);
+      }
+    }
+
+    return matches;
+  };
+
+  return {
+    add,
+
+    addInChunks: async (items, chunkOptions) => {
+      await processInChunks(items, add, chunkOptions);
+    },
+
+    remove,
+
+    has: (id) => docs.has(id),
+
+    get: (id) => docs.get(id)?.item,
+
+    keys: () => docs.keys(),
+
+    clear: () => {
+      docs.clear();
+      postings.clear();
+      vocabulary = [];
+      totalLength = 0;
+    },
+
+    search: (query, searchOptions = {}) => {
+      const { prefix = true, typos = 0, limit = Infinity } = searchOptions;
+      const words = tokenize(query).map((token) => token.text);
+      if (words.length === 0 || docs.size === 0) return [];
+
+      const averageLength = totalLength / docs.size || 1;
+      const scores = new Map<K, { score: number; terms: Set<string> }>();
+
+      for (const [index, word] of words.entries()) {
+        const matches = expand(word, prefix && index === words.length - 1, typos);
+        // Per item, the best-scoring way this word matched
+        const best = new Map<K, { score: number; term: string }>();
+
+        for (const [term, quality] of matches) {
+          const keys = postings.get(term)!;
+          const idf = Math.log(1 + (docs.size - keys.size + 0.5) / (keys.size + 0.5));
+          for (const id of keys) {
+            // Every earlier word has to have matched this item too
+            if (index > 0 && !scores.has(id)) continue;
+            const doc = docs.get(id)!;
+            const count = doc.counts.get(term)!;
+            const norm = K1 * (1 - B + (B * doc.length) / averageLength);
+            const score = quality * idf * ((count * (K1 + 1)) / (count + norm));
+            if (score > (best.get(id)?.score ?? -Infinity)) best.set(id, { score, term });
+          }
+        }
+
+        if (index > 0) {
+          for (const id of scores.keys()) if (!best.has(id)) scores.delete(id);
+        }
+        for (const [id, { score, term }] of best) {
+          const entry = scores.get(id) ?? { score: 0, terms: new Set<string>() };
+          entry.score += score;
+          entry.terms.add(term);
+          scores.set(id, entry);
+        }
+        if (scores.size === 0) return [];
+      }
+
+      return Array.from(scores, ([id, { score, terms }]) => ({
+        item: docs.get(id)!.item,
+        score,
+        terms: Array.from(terms),
+      }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+    },
+
+    highlight: ({ item, terms }) => {
+      const wanted = new Set(terms);
+      const highlights: Highlights = {};
+      for (const [name, { get }] of Object.entries(fields)) {
+        const spans = tokenize(get(item))
+          .filter((token) => wanted.has(token.text))
+          .map(({ start, end }) => ({ start, end }));
+        if (spans.length > 0) highlights[name] = spans;
+      }
+      return highlights;
+    },
+
+    get size() {
+      return docs.size;
+    },
+  };
+}
@@ -0,0 +1,131 @@
+/**
+ * Size Cache for React Paris Meetup #011
+ *
+ * Row sizes for a virtualized list whose rows aren't all the same height.
+ * Unmeasured rows count at an estimated size until they render and are
+ * measured. Offsets live in a Fenwick tree (binary indexed tree), so both
+ * "where does row i start?" and "which row is at this scroll offset?" are
+ * O(log n), and so is correcting one row after a ResizeObserver callback.
+ *
+ * Measurements are remembered by item key rather than index, so they survive
+ * items being prepended, filtered out and brought back.
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface SizeCacheOptions {
+  // Size assumed for rows that haven't been measured yet
+  estimate: number | ((index: number) => number);
+}
+
+export interface SizeCache<K = unknown> {
+  // Line the cache up with the current rows (O(n), skipped if unchanged)
+  sync: (keys: readonly K[]) => void;
+  // Record a rendered size; returns how much the row grew (or shrank)
+  measure: (index: number, size: number) => number;
+  size: (index: number) => number;
+  isMeasured: (index: number) => boolean;
+  keyAt: (index: number) => K;
+  // -1 if the key isn't in the list
+  indexOf: (key: K) => number;
+  // Where row `index` starts; offset(count) is the total size
+  offset: (index: number) => number;
+  // Row covering `offset`, clamped to the list
+  indexAt: (offset: number) => number;
+  readonly count: number;
+  readonly total: number;
+}
+
+// =============================================================================
+// CACHE
+// =============================================================================
+
+export function createSizeCache<K = unknown>(options: SizeCacheOptions): SizeCache<K> {
+  const { estimate } = options;
+  const estimateAt = typeof estimate === 'function' ? estimate : () => estimate;
+
+  const measured = new Map<K, number>();
+  let keys: readonly K[] = [];
+  let indices = new Map<K, number>();
+  let sizes: number[] = [];
+  // tree[i] holds the sum of sizes over the (i & -i) rows ending at row i - 1
+  let tree: number[] = [0];
+  let total = 0;
+
+  const build = () => {
+    const n = sizes.length;
+    tree = new Array(n + 1).fill(0);
+    total = 0;
+    for (let i = 1; i <= n; i++) {
+      tree[i] += sizes[i - 1];
+      total += sizes[i - 1];
+      const parent = i + (i & -i);
+      if (parent <= n) tree[parent] += tree[i];
+    }
+  };
+
+  const sameKeys = (next: readonly K[]) =>
+    next === keys || (next.length === keys.length && next.every((key, i) => key === keys[i]));
+
+  return {
+    sync: (next) => {
+      if (sameKeys(next)) return;
+      keys = next.slice();
+      indices = new Map(keys.map((key, index) => [key, index]));
+      sizes = keys.map((key, index) => measured.get(key) ?? estimateAt(index));
+      build();
+    },
+
+    measure: (index, size) => {
+      const delta = size - sizes[index];
+      measured.set(keys[index], size);
+      if (delta === 0) return 0;
+
+      sizes[index] = size;
+      total += delta;
+      for (let i = index + 1; i < tree.length; i += i & -i) tree[i] += delta;
+      return delta;
+    },
+
+    size: (index) => sizes[index],
+
+    isMeasured: (index) => measured.has(keys[index]),
+
+    keyAt: (index) => keys[index],
+
+    indexOf: (key) => indices.get(key) ?? -1,
+
+    offset: (index) => {
+      let sum = 0;
+      for (let i = Math.min(index, sizes.length); i > 0; i -= i & -i) sum += tree[i];
+      return sum;
+    },
+
+    indexAt: (offset) => {
+      const n = sizes.length;
+      if (n === 0) return 0;
+
+      // Binary lifting: the most rows whose combined size still fits in `offset`
+      let position = 0;
+      let remaining = offset;
+      for (let step = 1 << Math.floor(Math.log2(n)); step > 0; step >>= 1) {
+        const next = position + step;
+        if (next <= n && tree[next] <= remaining) {
+          position = next;
+          remaining -= tree[next];
+        }
+      }
+      return Math.min(position, n - 1);
+    },
+
+    get count() {
+      return sizes.length;
+    },
+
+    get total() {
+      return total;
+    },
+  };
+}
@@ -0,0 +1,381 @@
+/**
+ * Event Streams for React Paris Meetup #011
+ *
+ * A minimal observable with the operators that decide what happens when an
+ * input changes while async work for the previous value is still running:
+ *
+ *   switchMap   latest wins, the superseded operation is aborted
+ *   mergeMap    run them all (optionally capped)
+ *   concatMap   run them one after another
+ *   exhaustMap  ignore new values while busy
+ *
+ * Operators are built on the closures in concurrency.ts, and inner operations
+ * receive an AbortSignal that fires when they are superseded or unsubscribed.
+ */
+
+import {
+  AbortableOperation,
+  ClockOptions,
+  createConcurrencyLimiter,
+  createSequencer,
+  debounce,
+  rateLimit,
+  retry as retryWithBackoff,
+  RetryPolicy,
+} from './concurrency';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface Observer<T> {
+  next: (value: T) => void;
+  error: (error: unknown) => void;
+  complete: () => void;
+}
+
+export type Unsubscribe = () => void;
+
+export type Operator<A, B> = (source: Stream<A>) => Stream<B>;
+
+export type Project<A, B> = (value: A, signal: AbortSignal) => Promise<B>;
+
+export interface Stream<T> {
+  subscribe: (observer: Partial<Observer<T>> | ((value: T) => void)) => Unsubscribe;
+  pipe: {
+    (): Stream<T>;
+    <A>(op1: Operator<T, A>): Stream<A>;
+    <A, B>(op1: Operator<T, A>, op2: Operator<A, B>): Stream<B>;
+    <A, B, C>(op1: Operator<T, A>, op2: Operator<A, B>, op3: Operator<B, C>): Stream<C>;
+    <A, B, C, D>(
+      op1: Operator<T, A>,
+      op2: Operator<A, B>,
+      op3: Operator<B, C>,
+      op4: Operator<C, D>
+    ): Stream<D>;
+    <A, B, C, D, E>(
+      op1: Operator<T, A>,
+      op2: Operator<A, B>,
+      op3: Operator<B, C>,
+      op4: Operator<C, D>,
+      op5: Operator<D, E>
+    ): Stream<E>;
+    (...operators: Operator<any, any>[]): Stream<any>;
+  };
+}
+
+export interface Subject<T> extends Stream<T> {
+  next: (value: T) => void;
+  error: (error: unknown) => void;
+  complete: () => void;
+}
+
+// =============================================================================
+// CREATION
+// =============================================================================
+
+// The producer runs once per subscriber and may return its own teardown
+export function createStream<T>(
+  producer: (observer: Observer<T>) => Unsubscribe | void
+): Stream<T> {
+  const stream: Stream<T> = {
+    subscribe: (observerOrNext) => {
+      const partial =
+        typeof observerOrNext === 'function' ? { next: observerOrNext } : observerOrNext;
+      let closed = false;
+      let teardown: Unsubscribe | void;
+
+      const unsubscribe = () => {
+        if (closed) return;
+        closed = true;
+        if (typeof teardown === 'function') teardown();
+      };
+
+      // Nothing reaches the subscriber after error, complete or unsubscribe
+      const observer: Observer<T> = {
+        next: (value) => {
+          if (!closed) partial.next?.(value);
+        },
+        error: (error) => {
+          if (closed) return;
+          unsubscribe();
+          partial.error?.(error);
+        },
+        complete: () => {
+          if (closed) return;
+          unsubscribe();
+          partial.complete?.();
+        },
+      };
+
+      teardown = producer(observer);
+      if (closed && typeof teardown === 'function') teardown();
+      return unsubscribe;
+    },
+
+    pipe: ((...operators: Operator<any, any>[]) =>
+      operators.reduce((source, operator) => operator(source), stream)) as Stream<T>['pipe'],
+  };
+  return stream;
+}
+
+// A stream you push values into, shared by every subscriber
+export function createSubject<T>(): Subject<T> {
+  const observers = new Set<Observer<T>>();
+  let stopped = false;
+
+  const stream = createStream<T>((observer) => {
+    observers.add(observer);
+    return () => observers.delete(observer);
+  });
+
+  return {
+    ...stream,
+    next: (value) => {
+      if (!stopped) Array.from(observers).forEach((observer) => observer.next(value));
+    },
+    error: (error) => {
+      stopped = true;
+      Array.from(observers).forEach((observer) => observer.error(error));
+    },
+    complete: () => {
+      stopped = true;
+      Array.from(observers).forEach((observer) => observer.complete());
+    },
+  };
+}
+
+// =============================================================================
+// FLATTENING OPERATORS: One async operation per value
+// =============================================================================
+
+// Per-subscription state of a flattening operator: `start` runs the operation
+// for one value however the operator sees fit, `teardown` aborts what's left
+interface Flattener<A, B> {
+  start: (value: A, emit: (result: B) => void, fail: (error: unknown) => void) => Promise<void>;
+  teardown: () => void;
+}
+
+// Shared plumbing; completing the source waits for running operations
+function flatten<A, B>(create: () => Flattener<A, B>): Operator<A, B> {
+  return (source) =>
+    createStream<B>((observer) => {
+      const { start, teardown } = create();
+      let active = 0;
+      let sourceDone = false;
+
+      const settle = () => {
+        active--;
+        if (sourceDone && active === 0) observer.complete();
+      };
+
+      const unsubscribe = source.subscribe({
+        next: (value) => {
+          active++;
+          start(value, observer.next, observer.error).then(settle, settle);
+        },
+        error: observer.error,
+        complete: () => {
+          sourceDone = true;
+          if (active === 0) observer.complete();
+        },
+      });
+
+      return () => {
+        unsubscribe();
+        teardown();
+      };
+    });
+}
+
+// Latest wins: a new value aborts the operation still running for the last one
+export function switchMap<A, B>(project: Project<A, B>): Operator<A, B> {
+  return flatten(() => {
+    let current: AbortController | null = null;
+
+    return {
+      start: async (value, emit, fail) => {
+        current?.abort();
+        const controller = new AbortController();
+        current = controller;
+        try {
+          const result = await project(value, controller.signal);
+          if (!controller.signal.aborted) emit(result);
+        } catch (error) {
+          // Errors from a superseded operation don't matter any more
+          if (!controller.signal.aborted) fail(error);
+        }
+      },
+      teardown: () => current?.abort(),
+    };
+  });
+}
+
+// Run every operation, at most `limit` at a time (queued in order beyond that)
+export function mergeMap<A, B>(project: Project<A, B>, limit: number = Infinity): Operator<A, B> {
+  return flatten(() => {
+    const controller = new AbortController();
+    const limiter = createConcurrencyLimiter(limit);
+
+    return {
+      start: async (value, emit, fail) => {
+        try {
+          emit(await limiter((signal) => project(value, signal), { signal: controller.signal }));
+        } catch (error) {
+          if (!controller.signal.aborted) fail(error);
+        }
+      },
+      teardown: () => controller.abort(),
+    };
+  });
+}
+
+// One at a time, in arrival order
+export function concatMap<A, B>(project: Project<A, B>): Operator<A, B> {
+  return flatten(() => {
+    const controller = new AbortController();
+    const sequencer = createSequencer<B>();
+
+    return {
+      start: async (value, emit, fail) => {
+        const operation: AbortableOperation<B> = (signal) => project(value, signal);
+        try {
+          emit(await sequencer(operation, { signal: controller.signal }));
+        } catch (error) {
+          if (!controller.signal.aborted) fail(error);
+        }
+      },
+      teardown: () => controller.abort(),
+    };
+  });
+}
+
+// Ignore new values while an operation is running
+export function exhaustMap<A, B>(project: Project<A, B>): Operator<A, B> {
+  return flatten(() => {
+    const controller = new AbortController();
+    let busy = false;
+
+    return {
+      start: async (value, emit, fail) => {
+        if (busy) return;
+        busy = true;
+        try {
+          emit(await project(value, controller.signal));
+        } catch (error) {
+          if (!controller.signal.aborted) fail(error);
+        } finally {
+          busy = false;
+        }
+      },
+      teardown: () => controller.abort(),
+    };
+  });
+}
+
+// =============================================================================
+// FILTERING & TIMING OPERATORS
+// =============================================================================
+
+export function distinctUntilChanged<T>(
+  isEqual: (previous: T, next: T) => boolean = Object.is
+): Operator<T, T> {
+  return (source) =>
+    createStream<T>((observer) => {
+      let hasPrevious = false;
+      let previous: T;
+
+      return source.subscribe({
+        next: (value) => {
+          if (hasPrevious && isEqual(previous, value)) return;
+          hasPrevious = true;
+          previous = value;
+          observer.next(value);
+        },
+        error: observer.error,
+        complete: observer.complete,
+      });
+    });
+}
+
+// Emit a value once the source has been quiet for `ms`
+export function debounceTime<T>(ms: number, options: ClockOptions = {}): Operator<T, T> {
+  return (source) =>
+    createStream<T>((observer) => {
+      const emit = debounce(observer.next, ms, options);
+
+      const unsubscribe = source.subscribe({
+        next: emit,
+        error: observer.error,
+        // Deliver the pending value before completing
+        complete: () => {
+          emit.flush();
+          observer.complete();
+        },
+      });
+
+      return () => {
+        unsubscribe();
+        emit.cancel();
+      };
+    });
+}
+
+export interface ThrottleTimeOptions extends ClockOptions {
+  leading?: boolean;
+  trailing?: boolean;
+}
+
+// At most one value per `ms`; leading edge by default, trailing optional
+export function throttleTime<T>(
+  ms: number,
+  { leading = true, trailing = false, clock }: ThrottleTimeOptions = {}
+): Operator<T, T> {
+  return (source) =>
+    createStream<T>((observer) => {
+      const emit = rateLimit(observer.next, ms, { leading, trailing, maxWait: ms, clock });
+
+      const unsubscribe = source.subscribe({
+        next: emit,
+        error: observer.error,
+        complete: () => {
+          emit.flush();
+          observer.complete();
+        },
+      });
+
+      return () => {
+        unsubscribe();
+        emit.cancel();
+      };
+    });
+}
+
+// =============================================================================
+// ERROR HANDLING
+// =============================================================================
+
+// Resubscribe to the source after an error, backing off as retry() does
+export function retry<T>(policy: Omit<RetryPolicy, 'signal'> = {}): Operator<T, T> {
+  return (source) =>
+    createStream<T>((observer) => {
+      const controller = new AbortController();
+
+      retryWithBackoff(
+        (signal) =>
+          new Promise<void>((resolve, reject) => {
+            const unsubscribe = source.subscribe({
+              next: observer.next,
+              error: reject,
+              complete: resolve,
+            });
+            signal.addEventListener('abort', unsubscribe, { once: true });
+          }),
+        { ...policy, signal: controller.signal }
+      ).then(observer.complete, (error) => {
+        if (!controller.signal.aborted) observer.error(error);
+      });
+
+      return () => controller.abort();
+    });
+}
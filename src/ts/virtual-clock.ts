@@ -0,0 +1,134 @@
+/**
+ * Virtual Clock for React Paris Meetup #011
+ *
+ * A Clock for concurrency.ts whose time only moves when told to, so throttle,
+ * debounce, retry back-off, scheduler ordering and chunked processing can be
+ * checked deterministically under Node, without a browser or real waiting:
+ *
+ *   const clock = new VirtualClock();
+ *   const search = debounce(clock.trace('search', runSearch), 300, { clock });
+ *   search('r'); search('re'); search('react');
+ *   await clock.advance(300);
+ *   clock.timeline; // [{ time: 300, label: 'search', args: ['react'] }]
+ */
+
+import { Clock, TimerId } from './concurrency';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface TimelineEntry {
+  time: number;
+  label: string;
+  args: unknown[];
+}
+
+interface Timer {
+  id: number;
+  at: number;
+  callback: () => void;
+}
+
+// A real macrotask lets every pending microtask (promise callbacks) run first
+const hostMacrotask: (callback: () => void) => void =
+  typeof setImmediate === 'function' ? setImmediate : (callback) => setTimeout(callback, 0);
+
+// =============================================================================
+// VIRTUAL CLOCK
+// =============================================================================
+
+export class VirtualClock implements Clock {
+  private time: number;
+  private nextId = 1;
+  // Sorted by due time, then by creation order (like real timers)
+  private timers: Timer[] = [];
+
+  readonly timeline: TimelineEntry[] = [];
+
+  constructor(startTime: number = 0) {
+    this.time = startTime;
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  setTimeout(callback: () => void, ms: number): TimerId {
+    const timer = { id: this.nextId++, at: this.time + Math.max(0, ms), callback };
+    const index = this.timers.findIndex((other) => other.at > timer.at);
+    this.timers.splice(index === -1 ? this.timers.length : index, 0, timer);
+    return timer.id;
+  }
+
+  clearTimeout(id: TimerId | undefined): void {
+    const index = this.timers.findIndex((timer) => timer.id === id);
+    if (index !== -1) this.timers.splice(index, 1);
+  }
+
+  // A yield is a zero-delay timer, so it only resolves when time is advanced
+  yield(): Promise<void> {
+    return new Promise((resolve) => this.setTimeout(resolve, 0));
+  }
+
+  get pendingTimers(): number {
+    return this.timers.length;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Timeline
+  // ---------------------------------------------------------------------------
+
+  record(label: string, ...args: unknown[]): void {
+    this.timeline.push({ time: this.time, label, args });
+  }
+
+  // Wrap a function so every call lands on the timeline
+  trace<T extends (...args: any[]) => any>(label: string, fn: T = (() => {}) as T): T {
+    return ((...args: Parameters<T>) => {
+      this.record(label, ...args);
+      return fn(...args);
+    }) as T;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Driving time
+  // ---------------------------------------------------------------------------
+
+  // Let pending promise callbacks run without moving time
+  flushMicrotasks(): Promise<void> {
+    return new Promise((resolve) => hostMacrotask(resolve));
+  }
+
+  // Move time forward, firing every timer that comes due on the way (including
+  // ones scheduled by those timers) in order
+  async advance(ms: number): Promise<void> {
+    const target = this.time + ms;
+    await this.flushMicrotasks();
+
+    while (this.timers.length > 0 && this.timers[0].at <= target) {
+      const timer = this.timers.shift()!;
+      this.time = timer.at;
+      timer.callback();
+      await this.flushMicrotasks();
+    }
+
+    this.time = target;
+  }
+
+  // Fire timers until none are left; the limit guards against work that
+  // keeps rescheduling itself forever
+  async runAll(limit: number = 10000): Promise<void> {
+    await this.flushMicrotasks();
+
+    for (let fired = 0; this.timers.length > 0; fired++) {
+      if (fired >= limit) {
+        throw new Error(`VirtualClock.runAll: still busy after ${limit} timers`);
+      }
+      const timer = this.timers.shift()!;
+      this.time = timer.at;
+      timer.callback();
+      await this.flushMicrotasks();
+    }
+  }
+}
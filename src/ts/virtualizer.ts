@@ -0,0 +1,361 @@
+/**
+ * Virtualizer Layouts for React Paris Meetup #011
+ *
+ * The windowing math behind VirtualizedList, without the DOM: where each item
+ * goes, and which items overlap the stretch of the scroll axis on screen.
+ *
+ *   list     one column, or one row scrolling sideways; sizes are measured
+ *   grid     fixed-size cells, as many columns as fit the width
+ *   masonry  as many columns as fit the width; each item drops into the
+ *            shortest column and its height is measured
+ *
+ * A component feeds a layout the item keys, the scroll area's size (from a
+ * ResizeObserver) and measured item sizes. Everything it asks back is an
+ * index or an offset along the scroll axis, so scrolling, overscan and
+ * anchoring work the same way whatever the layout.
+ */
+
+import { createSizeCache } from './size-cache';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type Orientation = 'vertical' | 'horizontal';
+
+// Where an item goes in the content. A missing width or height is left to the
+// item's content and measured.
+export interface ItemPosition {
+  top: number;
+  left: number;
+  width?: number;
+  height?: number;
+}
+
+// Inclusive; empty when end < start
+export interface IndexRange {
+  start: number;
+  end: number;
+}
+
+export interface VirtualLayout<K = unknown> {
+  readonly orientation: Orientation;
+  // Items side by side across the scroll axis (1 for a list)
+  readonly lanes: number;
+  readonly count: number;
+  // Length of the content along the scroll axis
+  readonly total: number;
+  // Line the layout up with the current items
+  sync: (keys: readonly K[]) => void;
+  // The scroll area's inner size; returns whether any item moved
+  resize: (width: number, height: number) => boolean;
+  // A rendered item's size; returns whether any item moved
+  measure: (index: number, width: number, height: number) => boolean;
+  position: (index: number) => ItemPosition;
+  // Where an item starts along the scroll axis, and how far it reaches
+  offset: (index: number) => number;
+  size: (index: number) => number;
+  // Items overlapping [offset, offset + length) along the scroll axis
+  range: (offset: number, length: number) => IndexRange;
+  keyAt: (index: number) => K;
+  // -1 if the key isn't in the layout
+  indexOf: (key: K) => number;
+}
+
+type Estimate = number | ((index: number) => number);
+
+const emptyRange: IndexRange = { start: 0, end: -1 };
+
+// Item keys and where each one is, shared by the layouts
+function createKeyIndex<K>() {
+  let keys: readonly K[] = [];
+  let indices = new Map<K, number>();
+
+  return {
+    // Returns whether the keys changed
+    sync: (next: readonly K[]) => {
+      const same =
+        next === keys || (next.length === keys.length && next.every((key, i) => key === keys[i]));
+      if (same) return false;
+      keys = next.slice();
+      indices = new Map(keys.map((key, index) => [key, index]));
+      return true;
+    },
+    keyAt: (index: number) => keys[index],
+    indexOf: (key: K) => indices.get(key) ?? -1,
+    get keys() {
+      return keys;
+    },
+  };
+}
+
+// =============================================================================
+// LIST
+// =============================================================================
+
+export interface ListLayoutOptions {
+  // Size along the scroll axis assumed until an item is measured
+  estimate: Estimate;
+  orientation?: Orientation;
+}
+
+// Offsets come from a size cache, so lookups are O(log n)
+export function createListLayout<K = unknown>(options: ListLayoutOptions): VirtualLayout<K> {
+  const { estimate, orientation = 'vertical' } = options;
+  const vertical = orientation === 'vertical';
+  const sizes = createSizeCache<K>({ estimate });
+  // The scroll area's size across the scroll axis; items stretch to fill it
+  let cross = 0;
+
+  return {
+    orientation,
+    lanes: 1,
+
+    get count() {
+      return sizes.count;
+    },
+
+    get total() {
+      return sizes.total;
+    },
+
+    sync: sizes.sync,
+
+    resize: (width, height) => {
+      const next = vertical ? width : height;
+      if (next === cross) return false;
+      cross = next;
+      return true;
+    },
+
+    measure: (index, width, height) => sizes.measure(index, vertical ? height : width) !== 0,
+
+    position: (index) =>
+      vertical
+        ? { top: sizes.offset(index), left: 0, width: cross }
+        : { top: 0, left: sizes.offset(index), height: cross },
+
+    offset: sizes.offset,
+    size: sizes.size,
+
+    range: (offset, length) => {
+      if (sizes.count === 0) return emptyRange;
+      return {
+        start: sizes.indexAt(offset),
+        end: sizes.indexAt(Math.max(offset, offset + length - 1)),
+      };
+    },
+
+    keyAt: sizes.keyAt,
+    indexOf: sizes.indexOf,
+  };
+}
+
+// =============================================================================
+// GRID
+// =============================================================================
+
+export interface GridLayoutOptions {
+  // Cells are at least this wide; spare width is shared between them
+  minItemWidth: number;
+  itemHeight: number;
+  gap?: number;
+}
+
+// Every cell is the same size, so positions are plain arithmetic
+export function createGridLayout<K = unknown>(options: GridLayoutOptions): VirtualLayout<K> {
+  const { minItemWidth, itemHeight, gap = 0 } = options;
+  const keys = createKeyIndex<K>();
+  let columns = 1;
+  let cellWidth = minItemWidth;
+  const rowHeight = itemHeight + gap;
+
+  const rowOf = (index: number) => Math.floor(index / columns);
+
+  return {
+    orientation: 'vertical',
+
+    get lanes() {
+      return columns;
+    },
+
+    get count() {
+      return keys.keys.length;
+    },
+
+    get total() {
+      const rows = Math.ceil(keys.keys.length / columns);
+      return Math.max(0, rows * rowHeight - gap);
+    },
+
+    sync: keys.sync,
+
+    resize: (width) => {
+      const nextColumns = Math.max(1, Math.floor((width + gap) / (minItemWidth + gap)));
+      const nextWidth = width > 0 ? (width - gap * (nextColumns - 1)) / nextColumns : minItemWidth;
+      if (nextColumns === columns && nextWidth === cellWidth) return false;
+      columns = nextColumns;
+      cellWidth = Math.max(minItemWidth, nextWidth);
+      return true;
+    },
+
+    measure: () => false,
+
+    position: (index) => ({
+      top: rowOf(index) * rowHeight,
+      left: (index % columns) * (cellWidth + gap),
+      width: cellWidth,
+      height: itemHeight,
+    }),
+
+    offset: (index) => rowOf(index) * rowHeight,
+    size: () => itemHeight,
+
+    range: (offset, length) => {
+      const count = keys.keys.length;
+      if (count === 0) return emptyRange;
+      const firstRow = Math.max(0, Math.floor(offset / rowHeight));
+      const lastRow = Math.floor(Math.max(offset, offset + length - 1) / rowHeight);
+      return {
+        start: Math.min(count - 1, firstRow * columns),
+        end: Math.min(count - 1, (lastRow + 1) * columns - 1),
+      };
+    },
+
+    keyAt: keys.keyAt,
+    indexOf: keys.indexOf,
+  };
+}
+
+// =============================================================================
+// MASONRY
+// =============================================================================
+
+export interface MasonryLayoutOptions {
+  // Columns are at least this wide; spare width is shared between them
+  minColumnWidth: number;
+  // Height assumed until an item is measured
+  estimate: Estimate;
+  gap?: number;
+}
+
+// Items fill the shortest column in order. Column heights only grow, so item
+// tops never decrease with the index, which keeps range() a binary search.
+// Any change re-places every item (O(n)), once per batch of measurements.
+export function createMasonryLayout<K = unknown>(options: MasonryLayoutOptions): VirtualLayout<K> {
+  const { minColumnWidth, estimate, gap = 0 } = options;
+  const estimateAt = typeof estimate === 'function' ? estimate : () => estimate;
+  const keys = createKeyIndex<K>();
+  // Heights by key, so they survive items moving
+  const measured = new Map<K, number>();
+
+  let columns = 1;
+  let columnWidth = minColumnWidth;
+  let tops: number[] = [];
+  let lanes: number[] = [];
+  let total = 0;
+  // Tallest item, for how far above the viewport a visible item can start
+  let tallest = 0;
+  let stale = true;
+
+  const heightAt = (index: number) => measured.get(keys.keyAt(index)) ?? estimateAt(index);
+
+  const place = () => {
+    if (!stale) return;
+    stale = false;
+
+    const count = keys.keys.length;
+    const bottoms = new Array<number>(columns).fill(0);
+    tops = new Array(count);
+    lanes = new Array(count);
+    tallest = 0;
+
+    for (let index = 0; index < count; index++) {
+      const lane = bottoms.indexOf(Math.min(...bottoms));
+      const height = heightAt(index);
+      tops[index] = bottoms[lane];
+      lanes[index] = lane;
+      bottoms[lane] += height + gap;
+      tallest = Math.max(tallest, height);
+    }
+    total = Math.max(0, Math.max(...bottoms) - gap);
+  };
+
+  // First index whose top is at least `offset`
+  const firstAtOrBelow = (offset: number) => {
+    let low = 0;
+    let high = tops.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (tops[middle] < offset) low = middle + 1;
+      else high = middle;
+    }
+    return low;
+  };
+
+  return {
+    orientation: 'vertical',
+
+    get lanes() {
+      return columns;
+    },
+
+    get count() {
+      return keys.keys.length;
+    },
+
+    get total() {
+      place();
+      return total;
+    },
+
+    sync: (next) => {
+      if (keys.sync(next)) stale = true;
+    },
+
+    resize: (width) => {
+      const nextColumns = Math.max(1, Math.floor((width + gap) / (minColumnWidth + gap)));
+      const nextWidth =
+        width > 0 ? (width - gap * (nextColumns - 1)) / nextColumns : minColumnWidth;
+      if (nextColumns === columns && nextWidth === columnWidth) return false;
+      columns = nextColumns;
+      columnWidth = Math.max(minColumnWidth, nextWidth);
+      stale = true;
+      return true;
+    },
+
+    measure: (index, _width, height) => {
+      const key = keys.keyAt(index);
+      if (measured.get(key) === height) return false;
+      const moved = heightAt(index) !== height;
+      measured.set(key, height);
+      if (moved) stale = true;
+      return moved;
+    },
+
+    position: (index) => {
+      place();
+      return { top: tops[index], left: lanes[index] * (columnWidth + gap), width: columnWidth };
+    },
+
+    offset: (index) => {
+      place();
+      return tops[index];
+    },
+
+    size: heightAt,
+
+    range: (offset, length) => {
+      place();
+      const count = tops.length;
+      if (count === 0) return emptyRange;
+      return {
+        start: Math.min(count - 1, firstAtOrBelow(offset - tallest)),
+        end: Math.max(0, firstAtOrBelow(offset + length) - 1),
+      };
+    },
+
+    keyAt: keys.keyAt,
+    indexOf: keys.indexOf,
+  };
+}
@@ -0,0 +1,279 @@
+/**
+ * Worker Pool with a Typed RPC Bridge
+ * React Paris Meetup #011
+ *
+ * Moves expensive work off the main thread (parallelism, not just
+ * concurrency). A worker module exposes plain handler functions; the main
+ * thread calls them through a pool by name, with payload and result types
+ * inferred from the handlers. Results wrapped in transfer() move their
+ * buffers instead of copying them, and an aborted call terminates the worker
+ * still busy with it so a superseded request stops costing CPU.
+ *
+ * The same handlers run under Node's worker_threads via fromNodeWorker(), so
+ * they can be exercised without a browser.
+ */
+
+import { AbortableOperation, createConcurrencyLimiter, EnqueueOptions } from './concurrency';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type WorkerHandler = (payload: any, signal: AbortSignal) => any;
+export type WorkerHandlers = Record<string, WorkerHandler>;
+
+const TRANSFER = Symbol('transfer');
+
+export interface Transferred<T> {
+  [TRANSFER]: true;
+  value: T;
+  transfer: Transferable[];
+}
+
+type Unwrap<R> = R extends Transferred<infer T> ? T : R;
+
+export type PayloadOf<H extends WorkerHandlers, M extends keyof H> = Parameters<H[M]>[0];
+export type ResultOf<H extends WorkerHandlers, M extends keyof H> = Unwrap<
+  Awaited<ReturnType<H[M]>>
+>;
+
+// The slice of Worker the pool needs (browser Worker fits as-is)
+export interface WorkerLike {
+  postMessage: (message: any, transfer: Transferable[]) => void;
+  addEventListener: (type: 'message' | 'error', listener: (event: any) => void) => void;
+  terminate: () => void;
+}
+
+// The slice of the worker's global scope (or Node's parentPort) it needs
+export interface WorkerEndpoint {
+  postMessage: (message: any, transfer: Transferable[]) => void;
+  addEventListener: (type: 'message', listener: (event: { data: any }) => void) => void;
+}
+
+type Request =
+  | { type: 'call'; id: number; method: string; payload: unknown }
+  | { type: 'cancel'; id: number };
+
+type Response =
+  | { type: 'result'; id: number; value: unknown }
+  | { type: 'error'; id: number; error: { name: string; message: string } };
+
+// =============================================================================
+// WORKER SIDE
+// =============================================================================
+
+// Mark a result whose buffers should move to the caller instead of being copied
+export function transfer<T>(value: T, transferables: Transferable[]): Transferred<T> {
+  return { [TRANSFER]: true, value, transfer: transferables };
+}
+
+function isTransferred(value: any): value is Transferred<unknown> {
+  return value != null && value[TRANSFER] === true;
+}
+
+// Answer calls from a pool. Defaults to the worker's own global scope.
+export function exposeWorker(
+  handlers: WorkerHandlers,
+  endpoint: WorkerEndpoint = globalThis as unknown as WorkerEndpoint
+): void {
+  const controllers = new Map<number, AbortController>();
+
+  endpoint.addEventListener('message', async ({ data }: { data: Request }) => {
+    if (data.type === 'cancel') {
+      controllers.get(data.id)?.abort();
+      return;
+    }
+
+    const controller = new AbortController();
+    controllers.set(data.id, controller);
+    try {
+      const handler = handlers[data.method];
+      if (!handler) throw new Error(`Unknown worker method: ${data.method}`);
+
+      // Answer even when cancelled: the pool keeps the call's slot until then
+      const result = await handler(data.payload, controller.signal);
+      const response: Response = {
+        type: 'result',
+        id: data.id,
+        value: isTransferred(result) ? result.value : result,
+      };
+      endpoint.postMessage(response, isTransferred(result) ? result.transfer : []);
+    } catch (error: any) {
+      const response: Response = {
+        type: 'error',
+        id: data.id,
+        error: { name: error?.name ?? 'Error', message: error?.message ?? String(error) },
+      };
+      endpoint.postMessage(response, []);
+    } finally {
+      controllers.delete(data.id);
+    }
+  });
+}
+
+// Whether this code is running inside a dedicated browser worker
+export function isWorkerScope(): boolean {
+  const scope = (globalThis as any).WorkerGlobalScope;
+  return typeof scope !== 'undefined' && globalThis instanceof scope;
+}
+
+// =============================================================================
+// NODE STAND-IN
+// =============================================================================
+
+// Minimal shape of worker_threads.Worker, so this module doesn't import Node
+export interface NodeWorkerLike {
+  postMessage: (message: any, transferList?: readonly any[]) => void;
+  on: (event: 'message' | 'error', listener: (value: any) => void) => void;
+  terminate: () => unknown;
+}
+
+// Adapt a worker_threads Worker to the browser Worker shape the pool expects.
+// On the worker side, pass `parentPort` to exposeWorker().
+export function fromNodeWorker(worker: NodeWorkerLike): WorkerLike {
+  return {
+    postMessage: (message, transferList) => worker.postMessage(message, transferList),
+    addEventListener: (type, listener) =>
+      worker.on(type, (value) => listener(type === 'message' ? { data: value } : value)),
+    terminate: () => {
+      worker.terminate();
+    },
+  };
+}
+
+// =============================================================================
+// MAIN THREAD: POOL
+// =============================================================================
+
+export interface WorkerPoolOptions {
+  // Workers to run at most (default: hardwareConcurrency - 1, at least 1)
+  size?: number;
+  // Kill a worker busy with an aborted call and start a fresh one, instead of
+  // asking the handler to stop via its signal (default: true). Synchronous
+  // handlers can only be stopped this way.
+  terminateOnAbort?: boolean;
+}
+
+export interface CallOptions extends EnqueueOptions {
+  // Buffers in the payload to move instead of copy
+  transfer?: Transferable[];
+}
+
+export interface WorkerPool<H extends WorkerHandlers> {
+  call: <M extends keyof H & string>(
+    method: M,
+    payload: PayloadOf<H, M>,
+    options?: CallOptions
+  ) => Promise<ResultOf<H, M>>;
+  terminate: () => void;
+}
+
+interface PooledWorker {
+  worker: WorkerLike;
+  calls: Map<number, { resolve: (value: any) => void; reject: (error: any) => void }>;
+}
+
+function defaultPoolSize(): number {
+  const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency : undefined;
+  return Math.max(1, (cores ?? 2) - 1);
+}
+
+export function createWorkerPool<H extends WorkerHandlers>(
+  spawn: () => WorkerLike,
+  options: WorkerPoolOptions = {}
+): WorkerPool<H> {
+  const { size = defaultPoolSize(), terminateOnAbort = true } = options;
+  const workers: PooledWorker[] = [];
+  // Calls beyond `size` wait here, in order, and can be aborted while waiting
+  const limiter = createConcurrencyLimiter(size);
+  let nextId = 1;
+
+  const start = (): PooledWorker => {
+    const pooled: PooledWorker = { worker: spawn(), calls: new Map() };
+
+    pooled.worker.addEventListener('message', ({ data }: { data: Response }) => {
+      const call = pooled.calls.get(data.id);
+      if (!call) return;
+      pooled.calls.delete(data.id);
+      if (data.type === 'result') {
+        call.resolve(data.value);
+      } else {
+        call.reject(Object.assign(new Error(data.error.message), { name: data.error.name }));
+      }
+    });
+
+    // A crashed worker fails everything it was doing and is replaced
+    pooled.worker.addEventListener('error', (event) => {
+      replace(pooled, event?.error ?? new Error('Worker crashed'));
+    });
+
+    workers.push(pooled);
+    return pooled;
+  };
+
+  // Terminate a worker and fail everything it was doing; a worker that's
+  // already gone is left alone
+  const replace = (pooled: PooledWorker, error: unknown) => {
+    const index = workers.indexOf(pooled);
+    if (index === -1) return;
+    workers.splice(index, 1);
+    pooled.worker.terminate();
+
+    const calls = Array.from(pooled.calls.values());
+    pooled.calls.clear();
+    calls.forEach(({ reject }) => reject(error));
+  };
+
+  // Least busy worker, starting a new one while under the size limit
+  const pick = (): PooledWorker => {
+    const idle = workers.find((pooled) => pooled.calls.size === 0);
+    if (idle) return idle;
+    if (workers.length < size) return start();
+    return workers.reduce((a, b) => (a.calls.size <= b.calls.size ? a : b));
+  };
+
+  const dispatch = <R>(
+    method: string,
+    payload: unknown,
+    transferables: Transferable[]
+  ): AbortableOperation<R> =>
+    (signal) =>
+      new Promise<R>((resolve, reject) => {
+        const pooled = pick();
+        const id = nextId++;
+        pooled.calls.set(id, { resolve, reject });
+
+        signal.addEventListener(
+          'abort',
+          () => {
+            if (!pooled.calls.has(id)) return;
+            if (terminateOnAbort) {
+              // Anything else on this worker would die with it
+              replace(pooled, signal.reason);
+            } else {
+              // The call stays open until the worker answers, so its slot is
+              // only freed once the handler has stopped
+              const cancel: Request = { type: 'cancel', id };
+              pooled.worker.postMessage(cancel, []);
+            }
+          },
+          { once: true }
+        );
+
+        const request: Request = { type: 'call', id, method, payload };
+        pooled.worker.postMessage(request, transferables);
+      });
+
+  return {
+    call: (method, payload, callOptions = {}) =>
+      limiter(dispatch(method, payload, callOptions.transfer ?? []), {
+        signal: callOptions.signal,
+      }),
+
+    terminate: () => {
+      for (const pooled of [...workers]) {
+        replace(pooled, new Error('Worker pool terminated'));
+      }
+    },
+  };
+}